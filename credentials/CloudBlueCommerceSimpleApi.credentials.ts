@@ -81,6 +81,32 @@ export class CloudBlueCommerceSimpleApi implements ICredentialType {
       required: true,
       description: 'Password from your CloudBlue Commerce > MarketplaceAPI',
     },
+    {
+      displayName: 'Requests per Second',
+      name: 'requestsPerSecond',
+      type: 'number',
+      typeOptions: {
+        minValue: 0,
+      },
+      default: 0,
+      description:
+        'Maximum sustained request rate for this credential, shared by all workflows using it. Set to 0 to disable rate limiting.',
+    },
+    {
+      displayName: 'Burst',
+      name: 'burst',
+      type: 'number',
+      typeOptions: {
+        minValue: 1,
+      },
+      default: 10,
+      description: 'Number of requests that may be sent at once before the rate limit applies',
+      displayOptions: {
+        hide: {
+          requestsPerSecond: [0],
+        },
+      },
+    },
   ];
 
   authenticate: IAuthenticateGeneric = {
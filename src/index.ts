@@ -1,10 +1,11 @@
 /**
  * @file Main Entry Point
  * @description Entry point for the n8n CloudBlue Commerce SimpleAPI integration.
- * Exports the main node class for n8n to discover and register.
+ * Exports the action and trigger node classes for n8n to discover and register.
  *
  * @module CloudBlueCommerceSimpleApi
  */
 
 import { CloudBlueCommerceSimpleApi } from './nodes/CloudBlueCommerceSimpleApi/CloudBlueCommerceSimpleApi.node';
-export { CloudBlueCommerceSimpleApi };
+import { CloudBlueCommerceSimpleApiTrigger } from './nodes/CloudBlueCommerceSimpleApi/CloudBlueCommerceSimpleApiTrigger.node';
+export { CloudBlueCommerceSimpleApi, CloudBlueCommerceSimpleApiTrigger };
@@ -8,14 +8,29 @@ import type {
   IDataObject,
 } from 'n8n-workflow';
 import { NodeOperationError } from 'n8n-workflow';
-import { baseDescription, resourceSelection } from './descriptions/common';
+import { baseDescription, requestOptions, resourceSelection } from './descriptions/common';
 import { subscriptionOperations, subscriptionFields } from './descriptions/subscription';
 import { initializeApiService } from './utils/credentials';
+import { mapWithConcurrency } from './utils/concurrency';
+import type { IRetryOptions } from './services/CloudBlueApiService';
 import type { ResourceType } from './resources/registry';
-import { ResourceRegistry } from './resources/registry';
+import { ResourceRegistry, isBinaryResponse } from './resources/registry';
+import { CustomerHandler } from './resources/customer/customer.handler';
+import { OrderHandler } from './resources/order/order.handler';
+import { PlanHandler } from './resources/plan/plan.handler';
+import { ProductHandler } from './resources/product/product.handler';
+import { SubscriptionHandler } from './resources/subscription/subscription.handler';
+import type { IListSearchResult } from './interfaces/api';
 import { customerOperations, customerFields } from './descriptions/customer';
 import { orderOperations, orderFields } from './descriptions/order';
 import { planOperations, planFields } from './descriptions/plan';
+import { productOperations, productFields } from './descriptions/product';
+import { resellerOperations, resellerFields } from './descriptions/reseller';
+import { reportOperations, reportFields } from './descriptions/report';
+import { validationOperations, validationFields } from './descriptions/validation';
+import { customApiCallOperations, customApiCallFields } from './descriptions/customApiCall';
+import { toolFields } from './descriptions/tool';
+import { assertToolOperationAllowed } from './utils/tool';
 
 export class CloudBlueCommerceSimpleApi implements INodeType {
   description: INodeTypeDescription = {
@@ -30,17 +45,91 @@ export class CloudBlueCommerceSimpleApi implements INodeType {
       ...orderFields,
       ...planOperations,
       ...planFields,
+      ...productOperations,
+      ...productFields,
+      ...resellerOperations,
+      ...resellerFields,
+      ...reportOperations,
+      ...reportFields,
+      ...validationOperations,
+      ...validationFields,
+      ...customApiCallOperations,
+      ...customApiCallFields,
+      ...toolFields,
+      requestOptions,
     ] as unknown as INodeProperties[],
   } as INodeTypeDescription;
 
+  // Backs the From List mode of resource locator fields.
+  // The installed n8n-workflow typings predate listSearch, hence the cast.
+  methods = {
+    listSearch: {
+      async searchCustomers(
+        this: ILoadOptionsFunctions,
+        filter?: string,
+        paginationToken?: string,
+      ): Promise<IListSearchResult> {
+        const apiService = await initializeApiService(this);
+        return CustomerHandler.getInstance(apiService).search(filter, paginationToken);
+      },
+      async searchSubscriptions(
+        this: ILoadOptionsFunctions,
+        filter?: string,
+        paginationToken?: string,
+      ): Promise<IListSearchResult> {
+        const apiService = await initializeApiService(this);
+        return SubscriptionHandler.getInstance(apiService).search(filter, paginationToken);
+      },
+      async searchPlans(
+        this: ILoadOptionsFunctions,
+        filter?: string,
+        paginationToken?: string,
+      ): Promise<IListSearchResult> {
+        const apiService = await initializeApiService(this);
+        return PlanHandler.getInstance(apiService).search(filter, paginationToken);
+      },
+      async searchOrders(
+        this: ILoadOptionsFunctions,
+        filter?: string,
+        paginationToken?: string,
+      ): Promise<IListSearchResult> {
+        const apiService = await initializeApiService(this);
+        return OrderHandler.getInstance(apiService).search(filter, paginationToken);
+      },
+      async searchProducts(
+        this: ILoadOptionsFunctions,
+        filter?: string,
+        paginationToken?: string,
+      ): Promise<IListSearchResult> {
+        const apiService = await initializeApiService(this);
+        const pickerFilters = (this.getCurrentNodeParameter('productPickerFilters') ||
+          {}) as IDataObject;
+        return ProductHandler.getInstance(apiService).search(
+          filter,
+          paginationToken,
+          pickerFilters,
+        );
+      },
+    },
+  } as unknown as INodeType['methods'];
+
   async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
     const items = this.getInputData();
-    let returnData: INodeExecutionData[] = [];
 
     const resource = this.getNodeParameter('resource', 0) as ResourceType;
     const operation = this.getNodeParameter('operation', 0) as string;
 
-    const apiService = await initializeApiService(this);
+    const {
+      parallelism = 1,
+      dryRun = false,
+      ...retryOptions
+    } = this.getNodeParameter('requestOptions', 0, {}) as Partial<IRetryOptions> & {
+      parallelism?: number;
+      dryRun?: boolean;
+    };
+    const apiService = (await initializeApiService(this))
+      .withRetryOptions(retryOptions)
+      .withDryRun(dryRun);
     const registry = ResourceRegistry.getInstance(apiService);
 
     if (!registry.hasResource(resource)) {
@@ -59,30 +148,37 @@ export class CloudBlueCommerceSimpleApi implements INodeType {
       );
     }
 
-    for (let i = 0; i < items.length; i++) {
+    const itemResults = await mapWithConcurrency(items.length, parallelism, async (i) => {
       try {
+        assertToolOperationAllowed(this, resource, operation, i);
         const response = await resourceInstance.execute(this, operation, i);
 
-        // Handle array response for getMany
-        if (operation === 'getMany' && Array.isArray(response)) {
-          returnData = returnData.concat(
-            response.map((item) => ({
-              json: item as IDataObject,
-            })),
-          );
-        } else {
-          returnData.push({
-            json: response as IDataObject,
-          });
+        // Handle array response for list operations
+        if (Array.isArray(response)) {
+          return response.map((item) => ({
+            json: item as IDataObject,
+            pairedItem: { item: i },
+          }));
+        }
+        if (isBinaryResponse(response)) {
+          return [{ ...response.item, pairedItem: { item: i } }];
         }
+        return [
+          {
+            json: response as IDataObject,
+            pairedItem: { item: i },
+          },
+        ];
       } catch (error) {
         if (this.continueOnFail()) {
-          returnData.push({
-            json: {
-              error: error instanceof Error ? error.message : 'Unknown error occurred',
+          return [
+            {
+              json: {
+                error: error instanceof Error ? error.message : 'Unknown error occurred',
+              },
+              pairedItem: { item: i },
             },
-          });
-          continue;
+          ];
         }
         throw new NodeOperationError(
           this.getNode(),
@@ -97,8 +193,9 @@ export class CloudBlueCommerceSimpleApi implements INodeType {
           },
         );
       }
-    }
+    });
 
+    const returnData: INodeExecutionData[] = ([] as INodeExecutionData[]).concat(...itemResults);
     return [returnData];
   }
 
@@ -0,0 +1,93 @@
+import type {
+  IDataObject,
+  INodeExecutionData,
+  INodeProperties,
+  INodeType,
+  INodeTypeDescription,
+  IPollFunctions,
+} from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import { triggerBaseDescription, triggerFields } from './descriptions/trigger';
+import { initializeApiService } from './utils/credentials';
+import { AccountTrigger } from './triggers/account/account.trigger';
+import { AccountTriggerEvent } from './triggers/account/account.trigger.types';
+import type { IAccountTriggerState } from './triggers/account/account.trigger.types';
+import { OrderTrigger } from './triggers/order/order.trigger';
+import { OrderTriggerEvent } from './triggers/order/order.trigger.types';
+import type { IOrderTriggerState } from './triggers/order/order.trigger.types';
+import { SubscriptionTrigger } from './triggers/subscription/subscription.trigger';
+import { SubscriptionTriggerEvent } from './triggers/subscription/subscription.trigger.types';
+import type { ISubscriptionTriggerState } from './triggers/subscription/subscription.trigger.types';
+
+type TriggerEvent = OrderTriggerEvent | SubscriptionTriggerEvent | AccountTriggerEvent;
+
+const isEventOf = <T extends string>(events: Record<string, T>, event: string): event is T =>
+  (Object.values(events) as string[]).includes(event);
+
+export class CloudBlueCommerceSimpleApiTrigger implements INodeType {
+  description: INodeTypeDescription = {
+    ...triggerBaseDescription,
+    properties: [...triggerFields] as unknown as INodeProperties[],
+  } as INodeTypeDescription;
+
+  async poll(this: IPollFunctions): Promise<INodeExecutionData[][] | null> {
+    const event = this.getNodeParameter('event') as TriggerEvent;
+    const staticData = this.getWorkflowStaticData('node');
+
+    // Each event keeps its state under its own key. The state of a previously selected
+    // event is dropped, so switching events always starts with a first poll.
+    for (const key of Object.keys(staticData)) {
+      if (key !== event) {
+        delete staticData[key];
+      }
+    }
+    if (!staticData[event]) {
+      staticData[event] = {};
+    }
+    const state = staticData[event] as IDataObject;
+
+    const apiService = await initializeApiService(this);
+
+    let results: IDataObject[];
+    try {
+      if (isEventOf(OrderTriggerEvent, event)) {
+        results = await OrderTrigger.getInstance(apiService).poll(
+          this,
+          event,
+          state as IOrderTriggerState,
+        );
+      } else if (isEventOf(SubscriptionTriggerEvent, event)) {
+        results = await SubscriptionTrigger.getInstance(apiService).poll(
+          this,
+          event,
+          state as ISubscriptionTriggerState,
+        );
+      } else if (isEventOf(AccountTriggerEvent, event)) {
+        results = await AccountTrigger.getInstance(apiService).poll(
+          this,
+          event,
+          state as IAccountTriggerState,
+        );
+      } else {
+        throw new Error(`Event ${event} is not supported`);
+      }
+    } catch (error) {
+      throw new NodeOperationError(
+        this.getNode(),
+        error instanceof Error ? error.message : 'Unknown error occurred',
+        {
+          description: JSON.stringify({
+            event,
+            error: error instanceof Error ? error.stack : undefined,
+          }),
+        },
+      );
+    }
+
+    if (!results.length) {
+      return null;
+    }
+
+    return [results.map((result) => ({ json: result }))];
+  }
+}
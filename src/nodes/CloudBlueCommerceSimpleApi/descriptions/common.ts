@@ -3,15 +3,20 @@
  * @description Defines the base node configuration and common properties for the CloudBlue Commerce SimpleAPI.
  * Contains:
  * - Base node metadata (name, icon, version)
+ * - AI agent tool support
  * - Common node configuration (inputs, outputs)
  * - Resource selection options
+ * - Request retry, parallelism and dry-run options
+ * - Resource locator field builder
  *
  * @module CloudBlueCommerceSimpleApi/descriptions/common
  */
 
-import type { INodeTypeDescription } from 'n8n-workflow';
+import type { INodeProperties, INodeTypeDescription } from 'n8n-workflow';
+import { RETRY } from '../utils/constants';
 
-export const baseDescription: Partial<INodeTypeDescription> = {
+// usableAsTool is not yet part of the installed n8n-workflow typings
+export const baseDescription: Partial<INodeTypeDescription> & { usableAsTool?: boolean } = {
   displayName: 'CloudBlue Commerce SimpleAPI',
   name: 'cloudBlueCommerceSimpleApi',
   icon: 'file:cloudblue.svg',
@@ -24,6 +29,7 @@ export const baseDescription: Partial<INodeTypeDescription> = {
   },
   inputs: ['main'],
   outputs: ['main'],
+  usableAsTool: true,
   credentials: [
     {
       name: 'cloudBlueCommerceSimpleApi',
@@ -46,6 +52,10 @@ export const resourceSelection = {
   type: 'options',
   noDataExpression: true,
   options: [
+    {
+      name: 'Custom API Call',
+      value: 'customApiCall',
+    },
     {
       name: 'Customer',
       value: 'customer',
@@ -58,10 +68,137 @@ export const resourceSelection = {
       name: 'Plan',
       value: 'plan',
     },
+    {
+      name: 'Product',
+      value: 'product',
+    },
+    {
+      name: 'Report',
+      value: 'report',
+    },
+    {
+      name: 'Reseller',
+      value: 'reseller',
+    },
     {
       name: 'Subscription',
       value: 'subscription',
     },
+    {
+      name: 'Validation',
+      value: 'validation',
+    },
   ],
   default: 'customer',
 };
+
+export const requestOptions = {
+  displayName: 'Request Options',
+  name: 'requestOptions',
+  type: 'collection',
+  placeholder: 'Add Option',
+  default: {},
+  options: [
+    {
+      displayName: 'Dry Run',
+      name: 'dryRun',
+      type: 'boolean',
+      default: false,
+      description:
+        'Whether to validate the input and return the method, URL and body of requests that would create or change data, without sending them. Order creation also returns a price estimate.',
+    },
+    {
+      displayName: 'Parallelism',
+      name: 'parallelism',
+      type: 'number',
+      typeOptions: {
+        minValue: 1,
+        maxValue: 10,
+      },
+      default: 1,
+      description:
+        'Number of input items processed at the same time. Output order always matches input order.',
+    },
+    {
+      displayName: 'Max Attempts',
+      name: 'maxAttempts',
+      type: 'number',
+      typeOptions: {
+        minValue: 1,
+        maxValue: 10,
+      },
+      default: RETRY.DEFAULT_MAX_ATTEMPTS,
+      description:
+        'Maximum number of attempts for requests that fail with 429, 502, 503, 504 or a network error',
+    },
+    {
+      displayName: 'Jitter',
+      name: 'jitter',
+      type: 'boolean',
+      default: true,
+      description: 'Whether to randomize retry delays so parallel workflows do not retry in step',
+    },
+    {
+      displayName: 'Retry Non-Idempotent Requests',
+      name: 'retryNonIdempotent',
+      type: 'boolean',
+      default: false,
+      description:
+        'Whether to also retry POST requests such as order creation. A retried request may be applied twice.',
+    },
+  ],
+};
+
+/**
+ * Builds a resource locator field offering From List, By ID and By URL modes.
+ * The installed n8n-workflow typings predate resource locators, hence the cast.
+ */
+export function createResourceLocator(
+  property: Pick<INodeProperties, 'displayName' | 'name' | 'description' | 'displayOptions'>,
+  searchListMethod: string,
+  urlPattern: string,
+): INodeProperties {
+  return {
+    ...property,
+    type: 'resourceLocator',
+    required: true,
+    default: { mode: 'list', value: '' },
+    modes: [
+      {
+        displayName: 'From List',
+        name: 'list',
+        type: 'list',
+        placeholder: 'Select...',
+        typeOptions: {
+          searchListMethod,
+          searchable: true,
+        },
+      },
+      {
+        displayName: 'By ID',
+        name: 'id',
+        type: 'string',
+        placeholder: 'e.g. 1000001',
+      },
+      {
+        displayName: 'By URL',
+        name: 'url',
+        type: 'string',
+        placeholder: 'e.g. https://api.example.com/customers/1000001',
+        validation: [
+          {
+            type: 'regex',
+            properties: {
+              regex: `.*${urlPattern}.*`,
+              errorMessage: 'Not a valid URL',
+            },
+          },
+        ],
+        extractValue: {
+          type: 'regex',
+          regex: urlPattern,
+        },
+      },
+    ],
+  } as unknown as INodeProperties;
+}
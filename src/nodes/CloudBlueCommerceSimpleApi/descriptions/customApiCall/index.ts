@@ -0,0 +1,142 @@
+/**
+ * @file Custom API Call Resource Descriptions
+ * @description Defines the operations and fields available for the Custom API Call resource.
+ *
+ * Contains:
+ * - Operation definitions (request)
+ * - Method, path, query parameter and body inputs
+ * - Pagination toggle for list endpoints
+ * - Display options and conditional rendering
+ *
+ * @module CloudBlueCommerceSimpleApi/descriptions/customApiCall
+ */
+
+import type { INodeProperties } from 'n8n-workflow';
+
+export const customApiCallOperations: INodeProperties[] = [
+  {
+    displayName: 'Operation',
+    name: 'operation',
+    type: 'options',
+    noDataExpression: true,
+    displayOptions: {
+      show: {
+        resource: ['customApiCall'],
+      },
+    },
+    options: [
+      {
+        name: 'Make a Request',
+        value: 'request',
+        description: 'Send a request to any SimpleAPI endpoint using the node credentials',
+        action: 'Make an API request',
+      },
+    ],
+    default: 'request',
+  },
+];
+
+const baseCustomApiCallFields: INodeProperties[] = [
+  {
+    displayName: 'Method',
+    name: 'method',
+    type: 'options',
+    options: [
+      { name: 'DELETE', value: 'DELETE' },
+      { name: 'GET', value: 'GET' },
+      { name: 'PATCH', value: 'PATCH' },
+      { name: 'POST', value: 'POST' },
+      { name: 'PUT', value: 'PUT' },
+    ],
+    default: 'GET',
+    description: 'The HTTP method to use',
+    displayOptions: {
+      show: {
+        resource: ['customApiCall'],
+        operation: ['request'],
+      },
+    },
+  },
+  {
+    displayName: 'Path',
+    name: 'path',
+    type: 'string',
+    required: true,
+    default: '',
+    placeholder: '/customers/{customerId}',
+    description: 'The endpoint path relative to the API URL, starting with "/"',
+    displayOptions: {
+      show: {
+        resource: ['customApiCall'],
+        operation: ['request'],
+      },
+    },
+  },
+  {
+    displayName: 'Query Parameters',
+    name: 'queryParameters',
+    type: 'fixedCollection',
+    typeOptions: {
+      multipleValues: true,
+    },
+    default: {},
+    placeholder: 'Add Query Parameter',
+    displayOptions: {
+      show: {
+        resource: ['customApiCall'],
+        operation: ['request'],
+      },
+    },
+    options: [
+      {
+        name: 'parameter',
+        displayName: 'Parameter',
+        values: [
+          {
+            displayName: 'Name',
+            name: 'name',
+            type: 'string',
+            default: '',
+          },
+          {
+            displayName: 'Value',
+            name: 'value',
+            type: 'string',
+            default: '',
+          },
+        ],
+      },
+    ],
+  },
+  {
+    displayName: 'Body',
+    name: 'body',
+    type: 'json',
+    default: '{}',
+    description: 'JSON object to send as the request body',
+    displayOptions: {
+      show: {
+        resource: ['customApiCall'],
+        operation: ['request'],
+        method: ['POST', 'PUT', 'PATCH'],
+      },
+    },
+  },
+  {
+    displayName: 'Paginate',
+    name: 'paginate',
+    type: 'boolean',
+    default: false,
+    description:
+      'Whether to follow all pages of a list endpoint returning { data, pagination } and output one item per record',
+    displayOptions: {
+      show: {
+        resource: ['customApiCall'],
+        operation: ['request'],
+        method: ['GET'],
+      },
+    },
+  },
+];
+
+export const customApiCallFields: INodeProperties[] = baseCustomApiCallFields;
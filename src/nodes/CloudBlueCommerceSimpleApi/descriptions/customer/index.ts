@@ -3,7 +3,7 @@
  * @description Defines the operations and fields available for the Customer resource.
  *
  * Contains:
- * - Operation definitions (create, get, getMany, update)
+ * - Operation definitions (create, get, getMany, update, createForReseller, getManyForReseller)
  * - Field descriptions and validation rules
  * - Display options and conditional rendering
  * - Input validation requirements
@@ -13,7 +13,8 @@
  */
 
 import type { INodeProperties } from 'n8n-workflow';
-import { PAGINATION } from '../../utils/constants';
+import { createResourceLocator } from '../common';
+import { PAGINATION, RESOURCE_LOCATOR } from '../../utils/constants';
 
 export const customerOperations: INodeProperties[] = [
   {
@@ -33,18 +34,31 @@ export const customerOperations: INodeProperties[] = [
         description: 'Create a new customer',
         action: 'Create a customer',
       },
+      {
+        name: 'Create for Reseller',
+        value: 'createForReseller',
+        description: 'Create a new customer on behalf of a reseller',
+        action: 'Create a customer for a reseller',
+      },
       {
         name: 'Get',
         value: 'get',
-        description: 'Get a customer by ID',
+        description: 'Get a customer with contact and address details by ID',
         action: 'Get a customer',
       },
       {
         name: 'Get Many',
         value: 'getMany',
-        description: 'Get many customers',
+        description:
+          'Get many customers, optionally filtered by name, email, external ID or reseller',
         action: 'Get many customers',
       },
+      {
+        name: 'Get Many for Reseller',
+        value: 'getManyForReseller',
+        description: 'Get many customers of a reseller',
+        action: 'Get many customers of a reseller',
+      },
       {
         name: 'Update',
         value: 'update',
@@ -57,19 +71,34 @@ export const customerOperations: INodeProperties[] = [
 ];
 
 const baseCustomerFields: INodeProperties[] = [
+  createResourceLocator(
+    {
+      displayName: 'Customer',
+      name: 'id',
+      displayOptions: {
+        show: {
+          resource: ['customer'],
+          operation: ['get', 'update'],
+        },
+      },
+      description: 'The customer to use',
+    },
+    'searchCustomers',
+    RESOURCE_LOCATOR.URL_PATTERNS.customer,
+  ),
   {
-    displayName: 'Customer ID',
-    name: 'id',
+    displayName: 'Reseller ID',
+    name: 'resellerId',
     type: 'string',
     required: true,
     default: '',
     displayOptions: {
       show: {
         resource: ['customer'],
-        operation: ['get', 'update'],
+        operation: ['createForReseller', 'getManyForReseller'],
       },
     },
-    description: 'The ID of the customer',
+    description: 'The ID of the reseller the customer belongs to',
   },
   {
     displayName: 'Name',
@@ -80,7 +109,7 @@ const baseCustomerFields: INodeProperties[] = [
     displayOptions: {
       show: {
         resource: ['customer'],
-        operation: ['create'],
+        operation: ['create', 'createForReseller'],
       },
     },
     description: 'The name of the customer',
@@ -103,7 +132,7 @@ const baseCustomerFields: INodeProperties[] = [
     displayOptions: {
       show: {
         resource: ['customer'],
-        operation: ['create'],
+        operation: ['create', 'createForReseller'],
       },
     },
     description: 'The type of the customer',
@@ -116,7 +145,7 @@ const baseCustomerFields: INodeProperties[] = [
     displayOptions: {
       show: {
         resource: ['customer'],
-        operation: ['create'],
+        operation: ['create', 'createForReseller'],
       },
     },
     description: 'Contact information for the customer',
@@ -166,7 +195,7 @@ const baseCustomerFields: INodeProperties[] = [
     displayOptions: {
       show: {
         resource: ['customer'],
-        operation: ['create'],
+        operation: ['create', 'createForReseller'],
       },
     },
     description: 'Address information for the customer',
@@ -234,7 +263,7 @@ const baseCustomerFields: INodeProperties[] = [
     displayOptions: {
       show: {
         resource: ['customer'],
-        operation: ['create', 'update'],
+        operation: ['create', 'createForReseller', 'update'],
       },
     },
     options: [
@@ -270,7 +299,7 @@ const baseCustomerFields: INodeProperties[] = [
     displayOptions: {
       show: {
         resource: ['customer'],
-        operation: ['getMany'],
+        operation: ['getMany', 'getManyForReseller'],
       },
     },
   },
@@ -286,7 +315,7 @@ const baseCustomerFields: INodeProperties[] = [
     displayOptions: {
       show: {
         resource: ['customer'],
-        operation: ['getMany'],
+        operation: ['getMany', 'getManyForReseller'],
         returnAll: [false],
       },
     },
@@ -300,7 +329,7 @@ const baseCustomerFields: INodeProperties[] = [
     displayOptions: {
       show: {
         resource: ['customer'],
-        operation: ['getMany'],
+        operation: ['getMany', 'getManyForReseller'],
       },
     },
     options: [
@@ -331,6 +360,11 @@ const baseCustomerFields: INodeProperties[] = [
         type: 'string',
         default: '',
         description: 'Filter customers by reseller ID',
+        displayOptions: {
+          show: {
+            '/operation': ['getMany'],
+          },
+        },
       },
     ],
   },
@@ -13,7 +13,9 @@
  */
 
 import type { INodeProperties } from 'n8n-workflow';
-import { PAGINATION, presetDateOptions } from '../../utils/constants';
+import { createResourceLocator } from '../common';
+import { createProductMpnLocator, createProductPickerFilters } from '../product';
+import { PAGINATION, RESOURCE_LOCATOR, presetDateOptions } from '../../utils/constants';
 import { OrderStatus, OrderDetailType } from '../../resources/order/order.types';
 
 // Operations must follow {resource}Operations naming
@@ -44,13 +46,14 @@ export const orderOperations: INodeProperties[] = [
       {
         name: 'Get',
         value: 'get',
-        description: 'Get an order by ID',
+        description: 'Get an order with its status, lines and totals by ID',
         action: 'Get an order',
       },
       {
         name: 'Get Many',
         value: 'getMany',
-        description: 'Get many orders',
+        description:
+          'Get many orders, optionally filtered by customer, status, order number or creation time',
         action: 'Get many orders',
       },
       {
@@ -72,20 +75,21 @@ export const orderOperations: INodeProperties[] = [
 
 // Base fields must follow base{Resource}Fields naming
 const baseOrderFields: INodeProperties[] = [
-  {
-    displayName: 'Order ID',
-    name: 'orderId',
-    type: 'string',
-    required: true,
-    default: '',
-    description: 'The ID of the order',
-    displayOptions: {
-      show: {
-        resource: ['order'],
-        operation: ['get', 'update'],
+  createResourceLocator(
+    {
+      displayName: 'Order',
+      name: 'orderId',
+      description: 'The order to use',
+      displayOptions: {
+        show: {
+          resource: ['order'],
+          operation: ['get', 'update'],
+        },
       },
     },
-  },
+    'searchOrders',
+    RESOURCE_LOCATOR.URL_PATTERNS.order,
+  ),
   {
     displayName: 'Return All',
     name: 'returnAll',
@@ -266,6 +270,12 @@ const baseOrderFields: INodeProperties[] = [
       },
     ],
   },
+  createProductPickerFilters({
+    show: {
+      resource: ['order'],
+      operation: ['create', 'estimate'],
+    },
+  }),
   {
     displayName: 'Order Data',
     name: 'data',
@@ -291,6 +301,13 @@ const baseOrderFields: INodeProperties[] = [
             default: '',
             description: 'The ID of the customer placing the order',
           },
+          {
+            displayName: 'PO Number',
+            name: 'poNumber',
+            type: 'string',
+            default: '',
+            description: 'Purchase order number of the customer',
+          },
           {
             displayName: 'Products',
             name: 'products',
@@ -305,14 +322,7 @@ const baseOrderFields: INodeProperties[] = [
                 name: 'product',
                 displayName: 'Product',
                 values: [
-                  {
-                    displayName: 'MPN',
-                    name: 'mpn',
-                    type: 'string',
-                    required: true,
-                    default: '',
-                    description: 'Manufacturer Part Number',
-                  },
+                  createProductMpnLocator({ required: true }),
                   {
                     displayName: 'Quantity',
                     name: 'quantity',
@@ -329,6 +339,36 @@ const baseOrderFields: INodeProperties[] = [
       },
     ],
   },
+  {
+    displayName: 'Prevent Duplicate Orders',
+    name: 'preventDuplicates',
+    type: 'boolean',
+    default: false,
+    description:
+      'Whether to look up orders of the same customer with the same PO number first and return the existing order instead of creating another one',
+    displayOptions: {
+      show: {
+        resource: ['order'],
+        operation: ['create'],
+      },
+    },
+  },
+  {
+    displayName: 'Idempotency Key',
+    name: 'idempotencyKey',
+    type: 'string',
+    default: '',
+    placeholder: 'e.g. {{ $json.ticketId }}',
+    description:
+      'Key identifying this order, sent as its PO number. Leave empty to use the PO Number of the order data.',
+    displayOptions: {
+      show: {
+        resource: ['order'],
+        operation: ['create'],
+        preventDuplicates: [true],
+      },
+    },
+  },
   {
     displayName: 'Reseller ID',
     name: 'resellerId',
@@ -508,6 +548,38 @@ const baseOrderFields: INodeProperties[] = [
       },
     },
     options: [
+      {
+        displayName: 'Attributes',
+        name: 'attributes',
+        type: 'fixedCollection',
+        typeOptions: {
+          multipleValues: true,
+        },
+        default: {},
+        placeholder: 'Add Attribute',
+        options: [
+          {
+            name: 'attribute',
+            displayName: 'Attribute',
+            values: [
+              {
+                displayName: 'Key',
+                name: 'key',
+                type: 'string',
+                default: '',
+                description: 'Name of the attribute',
+              },
+              {
+                displayName: 'Value',
+                name: 'value',
+                type: 'string',
+                default: '',
+                description: 'Value of the attribute',
+              },
+            ],
+          },
+        ],
+      },
       {
         displayName: 'Credit Check',
         name: 'creditCheck',
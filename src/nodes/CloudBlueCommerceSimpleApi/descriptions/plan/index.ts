@@ -10,7 +10,8 @@
  */
 
 import type { INodeProperties } from 'n8n-workflow';
-import { PAGINATION } from '../../utils/constants';
+import { createResourceLocator } from '../common';
+import { PAGINATION, RESOURCE_LOCATOR } from '../../utils/constants';
 
 export const planOperations: INodeProperties[] = [
   {
@@ -43,20 +44,21 @@ export const planOperations: INodeProperties[] = [
 
 const basePlanFields: INodeProperties[] = [
   // Single Plan Operations (get)
-  {
-    displayName: 'Plan ID',
-    name: 'id',
-    type: 'string',
-    required: true,
-    default: '',
-    displayOptions: {
-      show: {
-        resource: ['plan'],
-        operation: ['get'],
+  createResourceLocator(
+    {
+      displayName: 'Plan',
+      name: 'id',
+      displayOptions: {
+        show: {
+          resource: ['plan'],
+          operation: ['get'],
+        },
       },
+      description: 'The service plan to use',
     },
-    description: 'The ID of the service plan',
-  },
+    'searchPlans',
+    RESOURCE_LOCATOR.URL_PATTERNS.plan,
+  ),
 
   // Get Many Operation Fields
   {
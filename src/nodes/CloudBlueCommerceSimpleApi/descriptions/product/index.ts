@@ -0,0 +1,183 @@
+/**
+ * @file Product Resource Description
+ * @description Defines operations and fields for the Product Catalog resource
+ * Implements:
+ * - Operation definitions
+ * - Catalog filter fields (name, service name, MPN, vendor)
+ * - MPN resource locator and its picker filters for other resources
+ * - Display options and conditional logic
+ *
+ * @module CloudBlueCommerceSimpleApi/descriptions/product
+ */
+
+import type { INodeProperties } from 'n8n-workflow';
+import { PAGINATION } from '../../utils/constants';
+
+export const productOperations: INodeProperties[] = [
+  {
+    displayName: 'Operation',
+    name: 'operation',
+    type: 'options',
+    noDataExpression: true,
+    displayOptions: {
+      show: {
+        resource: ['product'],
+      },
+    },
+    options: [
+      {
+        name: 'Get Many',
+        value: 'getMany',
+        description: 'Get many products from the product catalog',
+        action: 'Get many products',
+      },
+    ],
+    default: 'getMany',
+  },
+];
+
+const baseProductFields: INodeProperties[] = [
+  {
+    displayName: 'Return All',
+    name: 'returnAll',
+    type: 'boolean',
+    default: false,
+    description: 'Whether to return all results or only up to a given limit',
+    displayOptions: {
+      show: {
+        resource: ['product'],
+        operation: ['getMany'],
+      },
+    },
+  },
+  {
+    displayName: 'Limit',
+    name: 'limit',
+    type: 'number',
+    typeOptions: {
+      minValue: 1,
+    },
+    default: PAGINATION.DEFAULT_LIMIT,
+    description: `Max number of results to return (maximum: ${PAGINATION.MAX_LIMIT})`,
+    displayOptions: {
+      show: {
+        resource: ['product'],
+        operation: ['getMany'],
+        returnAll: [false],
+      },
+    },
+  },
+  {
+    displayName: 'Filters',
+    name: 'filters',
+    type: 'collection',
+    placeholder: 'Add Filter',
+    default: {},
+    displayOptions: {
+      show: {
+        resource: ['product'],
+        operation: ['getMany'],
+      },
+    },
+    options: [
+      {
+        displayName: 'MPN',
+        name: 'mpn',
+        type: 'string',
+        default: '',
+        description: 'Filter products by Manufacturer Part Number',
+      },
+      {
+        displayName: 'Name',
+        name: 'name',
+        type: 'string',
+        default: '',
+        description: 'Filter products by product name',
+      },
+      {
+        displayName: 'Service Name',
+        name: 'serviceName',
+        type: 'string',
+        default: '',
+        description: 'Filter products by service name (e.g. O365_APS2)',
+      },
+      {
+        displayName: 'Vendor',
+        name: 'vendor',
+        type: 'string',
+        default: '',
+        description: 'Filter products by manufacturer ID',
+      },
+    ],
+  },
+];
+
+export const productFields: INodeProperties[] = baseProductFields;
+
+/**
+ * Builds the filters narrowing the product picker of MPN fields in other resources
+ */
+export function createProductPickerFilters(
+  displayOptions: INodeProperties['displayOptions'],
+): INodeProperties {
+  return {
+    displayName: 'Product Picker Filters',
+    name: 'productPickerFilters',
+    type: 'collection',
+    placeholder: 'Add Filter',
+    default: {},
+    description: 'Narrow the products offered in the MPN lists',
+    displayOptions,
+    options: [
+      {
+        displayName: 'Service Name',
+        name: 'serviceName',
+        type: 'string',
+        default: '',
+        description: 'Only offer products of this service name (e.g. O365_APS2)',
+      },
+      {
+        displayName: 'Vendor',
+        name: 'vendor',
+        type: 'string',
+        default: '',
+        description: 'Only offer products of this manufacturer ID',
+      },
+    ],
+  };
+}
+
+/**
+ * Builds an MPN field offering a product search list and direct MPN entry.
+ * The installed n8n-workflow typings predate resource locators, hence the cast.
+ */
+export function createProductMpnLocator(
+  property: Pick<INodeProperties, 'required'> = {},
+): INodeProperties {
+  return {
+    displayName: 'MPN',
+    name: 'mpn',
+    type: 'resourceLocator',
+    ...property,
+    default: { mode: 'list', value: '' },
+    description: 'Manufacturer Part Number of the product',
+    modes: [
+      {
+        displayName: 'From List',
+        name: 'list',
+        type: 'list',
+        placeholder: 'Search by product name...',
+        typeOptions: {
+          searchListMethod: 'searchProducts',
+          searchable: true,
+        },
+      },
+      {
+        displayName: 'By MPN',
+        name: 'id',
+        type: 'string',
+        placeholder: 'e.g. MS-O365-E3',
+      },
+    ],
+  } as unknown as INodeProperties;
+}
@@ -0,0 +1,333 @@
+/**
+ * @file Report Resource Descriptions
+ * @description Defines the operations and fields available for the Report resource.
+ *
+ * Contains:
+ * - Operation definitions (create, get, getMany, waitAndDownload)
+ * - Field descriptions and validation rules
+ * - Display options and conditional rendering
+ * - Date range filtering support
+ *
+ * @module CloudBlueCommerceSimpleApi/descriptions/report
+ */
+
+import type { INodeProperties } from 'n8n-workflow';
+import { PAGINATION, presetDateOptions } from '../../utils/constants';
+import { ReportFormat, ReportStatus, ReportType } from '../../resources/report/report.types';
+
+export const reportOperations: INodeProperties[] = [
+  {
+    displayName: 'Operation',
+    name: 'operation',
+    type: 'options',
+    noDataExpression: true,
+    displayOptions: {
+      show: {
+        resource: ['report'],
+      },
+    },
+    options: [
+      {
+        name: 'Create',
+        value: 'create',
+        description: 'Schedule a one-time report',
+        action: 'Schedule a report',
+      },
+      {
+        name: 'Get',
+        value: 'get',
+        description: 'Get a report by ID',
+        action: 'Get a report',
+      },
+      {
+        name: 'Get Many',
+        value: 'getMany',
+        description: 'Get many exported reports',
+        action: 'Get many reports',
+      },
+      {
+        name: 'Wait for Completion and Download',
+        value: 'waitAndDownload',
+        description: 'Wait until a report is generated, then download its file as binary data',
+        action: 'Wait for a report and download it',
+      },
+    ],
+    default: 'getMany',
+  },
+];
+
+const formatOptions = Object.values(ReportFormat).map((format) => ({
+  name: format.toUpperCase(),
+  value: format,
+}));
+
+const dateFilterOptions: INodeProperties[] = [
+  {
+    displayName: 'Preset Date',
+    name: 'presetDate',
+    type: 'collection',
+    default: {},
+    options: [
+      {
+        displayName: 'Preset',
+        name: 'preset',
+        type: 'options',
+        options: presetDateOptions,
+        default: '',
+      },
+    ],
+  },
+  {
+    displayName: 'Custom Date',
+    name: 'datePicker',
+    type: 'collection',
+    default: {},
+    options: [
+      {
+        displayName: 'Date',
+        name: 'date',
+        type: 'dateTime',
+        default: '',
+      },
+    ],
+  },
+];
+
+const baseReportFields: INodeProperties[] = [
+  {
+    displayName: 'Report ID',
+    name: 'reportId',
+    type: 'string',
+    required: true,
+    default: '',
+    description: 'The ID (UUID) of the report',
+    displayOptions: {
+      show: {
+        resource: ['report'],
+        operation: ['get', 'waitAndDownload'],
+      },
+    },
+  },
+  {
+    displayName: 'Poll Interval (Seconds)',
+    name: 'pollInterval',
+    type: 'number',
+    typeOptions: {
+      minValue: 1,
+    },
+    default: 10,
+    description: 'How often to check the report status',
+    displayOptions: {
+      show: {
+        resource: ['report'],
+        operation: ['waitAndDownload'],
+      },
+    },
+  },
+  {
+    displayName: 'Timeout (Seconds)',
+    name: 'timeout',
+    type: 'number',
+    typeOptions: {
+      minValue: 1,
+    },
+    default: 600,
+    description: 'Maximum time to wait for the report to complete before failing',
+    displayOptions: {
+      show: {
+        resource: ['report'],
+        operation: ['waitAndDownload'],
+      },
+    },
+  },
+  {
+    displayName: 'Binary Property',
+    name: 'binaryPropertyName',
+    type: 'string',
+    required: true,
+    default: 'data',
+    description: 'Name of the binary property to write the downloaded report file to',
+    displayOptions: {
+      show: {
+        resource: ['report'],
+        operation: ['waitAndDownload'],
+      },
+    },
+  },
+  {
+    displayName: 'Report Name',
+    name: 'name',
+    type: 'string',
+    required: true,
+    default: '',
+    placeholder: 'Daily report',
+    description: 'The preconfigured report name as defined in the platform',
+    displayOptions: {
+      show: {
+        resource: ['report'],
+        operation: ['create'],
+      },
+    },
+  },
+  {
+    displayName: 'Start Date',
+    name: 'startDate',
+    type: 'dateTime',
+    required: true,
+    default: '',
+    description: 'The report period start date and time',
+    displayOptions: {
+      show: {
+        resource: ['report'],
+        operation: ['create'],
+      },
+    },
+  },
+  {
+    displayName: 'Format',
+    name: 'format',
+    type: 'options',
+    options: formatOptions,
+    default: ReportFormat.JSON,
+    description: 'The report file format',
+    displayOptions: {
+      show: {
+        resource: ['report'],
+        operation: ['create'],
+      },
+    },
+  },
+  {
+    displayName: 'Additional Fields',
+    name: 'additionalFields',
+    type: 'collection',
+    placeholder: 'Add Field',
+    default: {},
+    displayOptions: {
+      show: {
+        resource: ['report'],
+        operation: ['create'],
+      },
+    },
+    options: [
+      {
+        displayName: 'Customization Name',
+        name: 'customizationName',
+        type: 'string',
+        default: '',
+        description: 'The name of the report customization to apply',
+      },
+      {
+        displayName: 'End Date',
+        name: 'endDate',
+        type: 'dateTime',
+        default: '',
+        description: 'The report period end date and time',
+      },
+    ],
+  },
+  {
+    displayName: 'Return All',
+    name: 'returnAll',
+    type: 'boolean',
+    default: false,
+    description: 'Whether to return all results or only up to a given limit',
+    displayOptions: {
+      show: {
+        resource: ['report'],
+        operation: ['getMany'],
+      },
+    },
+  },
+  {
+    displayName: 'Limit',
+    name: 'limit',
+    type: 'number',
+    typeOptions: {
+      minValue: 1,
+    },
+    default: PAGINATION.DEFAULT_LIMIT,
+    description: `Max number of results to return (maximum: ${PAGINATION.MAX_LIMIT})`,
+    displayOptions: {
+      show: {
+        resource: ['report'],
+        operation: ['getMany'],
+        returnAll: [false],
+      },
+    },
+  },
+  {
+    displayName: 'Filters',
+    name: 'filters',
+    type: 'collection',
+    default: {},
+    placeholder: 'Add Filter',
+    description: 'Filter the reports',
+    displayOptions: {
+      show: {
+        resource: ['report'],
+        operation: ['getMany'],
+      },
+    },
+    options: [
+      {
+        displayName: 'Format',
+        name: 'format',
+        type: 'options',
+        options: formatOptions,
+        default: '',
+        description: 'Filter by report file format',
+      },
+      {
+        displayName: 'From',
+        name: 'from',
+        type: 'collection',
+        default: {},
+        description: 'The first day of the requested period',
+        options: dateFilterOptions,
+      },
+      {
+        displayName: 'Name',
+        name: 'name',
+        type: 'string',
+        default: '',
+        description: 'Filter by report name',
+      },
+      {
+        displayName: 'Status',
+        name: 'status',
+        type: 'options',
+        options: Object.values(ReportStatus).map((status) => ({
+          name: status.charAt(0).toUpperCase() + status.slice(1),
+          value: status,
+        })),
+        default: '',
+        description: 'Filter by report generation status',
+      },
+      {
+        displayName: 'To',
+        name: 'to',
+        type: 'collection',
+        default: {},
+        description: 'The last day of the requested period',
+        options: dateFilterOptions,
+      },
+      {
+        displayName: 'Type',
+        name: 'type',
+        type: 'options',
+        options: Object.values(ReportType).map((type) => ({
+          name: type
+            .split('_')
+            .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+            .join(' '),
+          value: type,
+        })),
+        default: '',
+        description: 'Filter by report generation type',
+      },
+    ],
+  },
+];
+
+export const reportFields: INodeProperties[] = baseReportFields;
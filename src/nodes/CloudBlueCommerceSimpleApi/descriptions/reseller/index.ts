@@ -0,0 +1,516 @@
+/**
+ * @file Reseller Resource Descriptions
+ * @description Defines the operations and fields available for the Reseller resource.
+ *
+ * Contains:
+ * - Operation definitions (create, get, getMany, update)
+ * - Field descriptions and validation rules
+ * - Display options and conditional rendering
+ * - Complex field structures (address, contact persons, attributes)
+ *
+ * @module CloudBlueCommerceSimpleApi/descriptions/reseller
+ */
+
+import type { INodeProperties } from 'n8n-workflow';
+import { PAGINATION } from '../../utils/constants';
+import { ResellerStatus } from '../../resources/reseller/reseller.types';
+
+export const resellerOperations: INodeProperties[] = [
+  {
+    displayName: 'Operation',
+    name: 'operation',
+    type: 'options',
+    noDataExpression: true,
+    displayOptions: {
+      show: {
+        resource: ['reseller'],
+      },
+    },
+    options: [
+      {
+        name: 'Create',
+        value: 'create',
+        description: 'Create a new reseller',
+        action: 'Create a reseller',
+      },
+      {
+        name: 'Get',
+        value: 'get',
+        description: 'Get a reseller by ID',
+        action: 'Get a reseller',
+      },
+      {
+        name: 'Get Many',
+        value: 'getMany',
+        description: 'Get many resellers',
+        action: 'Get many resellers',
+      },
+      {
+        name: 'Update',
+        value: 'update',
+        description: 'Update a reseller',
+        action: 'Update a reseller',
+      },
+    ],
+    default: 'getMany',
+  },
+];
+
+const statusOptions = [
+  { name: 'Active', value: ResellerStatus.ACTIVE },
+  { name: 'Admin Hold', value: ResellerStatus.ADMIN_HOLD },
+  { name: 'Cancelled', value: ResellerStatus.CANCELLED },
+  { name: 'Credit Hold', value: ResellerStatus.CREDIT_HOLD },
+  { name: 'Error', value: ResellerStatus.ERROR },
+  { name: 'Pending', value: ResellerStatus.PENDING },
+];
+
+const addressValues: INodeProperties[] = [
+  {
+    displayName: 'Street Address',
+    name: 'streetAddress',
+    type: 'string',
+    required: true,
+    default: '',
+    description: 'The street address',
+  },
+  {
+    displayName: 'Address Extension',
+    name: 'addressExtension',
+    type: 'string',
+    default: '',
+    description: 'Secondary information in the address such as apartment or suite number',
+  },
+  {
+    displayName: 'City',
+    name: 'city',
+    type: 'string',
+    required: true,
+    default: '',
+    description: 'The city of the postal address',
+  },
+  {
+    displayName: 'State',
+    name: 'state',
+    type: 'string',
+    default: '',
+    description: 'The state of the city (mandatory for certain countries)',
+  },
+  {
+    displayName: 'Postal Code',
+    name: 'postalCode',
+    type: 'string',
+    required: true,
+    default: '',
+    description: 'The postal code for the specified street address',
+  },
+  {
+    displayName: 'Country Code',
+    name: 'countryCode',
+    type: 'string',
+    required: true,
+    default: '',
+    placeholder: 'US',
+    description: 'The two uppercase character country code (ISO 3166-1 alpha-2)',
+  },
+];
+
+const contactPersonValues: INodeProperties[] = [
+  {
+    displayName: 'Type',
+    name: 'type',
+    type: 'options',
+    options: [
+      { name: 'Admin', value: 'admin' },
+      { name: 'Billing', value: 'billing' },
+      { name: 'Technical', value: 'technical' },
+    ],
+    default: 'admin',
+    description: 'The contact type',
+  },
+  {
+    displayName: 'First Name',
+    name: 'firstName',
+    type: 'string',
+    required: true,
+    default: '',
+    description: 'First name of the contact',
+  },
+  {
+    displayName: 'Last Name',
+    name: 'lastName',
+    type: 'string',
+    required: true,
+    default: '',
+    description: 'Last name of the contact',
+  },
+  {
+    displayName: 'Email',
+    name: 'email',
+    type: 'string',
+    placeholder: 'name@email.com',
+    required: true,
+    default: '',
+    description: 'Email address of the contact',
+  },
+  {
+    displayName: 'Phone Number',
+    name: 'phoneNumber',
+    type: 'string',
+    required: true,
+    default: '',
+    placeholder: '1##5551234567#',
+    description: 'Phone number of the contact in ITU-T E.164 notation',
+  },
+  {
+    displayName: 'Login',
+    name: 'login',
+    type: 'string',
+    default: '',
+    description: 'Login name for the administrator (admin contacts only)',
+  },
+  {
+    displayName: 'Password',
+    name: 'password',
+    type: 'string',
+    typeOptions: {
+      password: true,
+    },
+    default: '',
+    description: 'Password assigned to the administrator login (admin contacts only)',
+  },
+];
+
+const baseResellerFields: INodeProperties[] = [
+  {
+    displayName: 'Reseller ID',
+    name: 'resellerId',
+    type: 'string',
+    required: true,
+    default: '',
+    displayOptions: {
+      show: {
+        resource: ['reseller'],
+        operation: ['get', 'update'],
+      },
+    },
+    description: 'The ID of the reseller',
+  },
+  {
+    displayName: 'Name',
+    name: 'name',
+    type: 'string',
+    required: true,
+    default: '',
+    displayOptions: {
+      show: {
+        resource: ['reseller'],
+        operation: ['create'],
+      },
+    },
+    description: "The name of the reseller's company",
+  },
+  {
+    displayName: 'Currency',
+    name: 'currency',
+    type: 'string',
+    required: true,
+    default: '',
+    placeholder: 'USD',
+    displayOptions: {
+      show: {
+        resource: ['reseller'],
+        operation: ['create'],
+      },
+    },
+    description: 'The currency the reseller will use',
+  },
+  {
+    displayName: 'Language',
+    name: 'language',
+    type: 'string',
+    required: true,
+    default: 'en',
+    displayOptions: {
+      show: {
+        resource: ['reseller'],
+        operation: ['create'],
+      },
+    },
+    description: "The language for the reseller's notifications and user panel login",
+  },
+  {
+    displayName: 'Address',
+    name: 'address',
+    type: 'fixedCollection',
+    required: true,
+    default: {},
+    displayOptions: {
+      show: {
+        resource: ['reseller'],
+        operation: ['create'],
+      },
+    },
+    description: 'Postal address of the reseller',
+    options: [
+      {
+        name: 'value',
+        displayName: 'Address',
+        values: addressValues,
+      },
+    ],
+  },
+  {
+    displayName: 'Contact Persons',
+    name: 'contactPersons',
+    type: 'fixedCollection',
+    typeOptions: {
+      multipleValues: true,
+    },
+    required: true,
+    default: {},
+    placeholder: 'Add Contact Person',
+    displayOptions: {
+      show: {
+        resource: ['reseller'],
+        operation: ['create'],
+      },
+    },
+    description: 'Contact persons of the reseller',
+    options: [
+      {
+        name: 'contactPerson',
+        displayName: 'Contact Person',
+        values: contactPersonValues,
+      },
+    ],
+  },
+  {
+    displayName: 'Additional Fields',
+    name: 'additionalFields',
+    type: 'collection',
+    placeholder: 'Add Field',
+    default: {},
+    displayOptions: {
+      show: {
+        resource: ['reseller'],
+        operation: ['create'],
+      },
+    },
+    options: [
+      {
+        displayName: 'Attributes',
+        name: 'attributes',
+        type: 'fixedCollection',
+        typeOptions: {
+          multipleValues: true,
+        },
+        default: {},
+        placeholder: 'Add Attribute',
+        options: [
+          {
+            name: 'attribute',
+            displayName: 'Attribute',
+            values: [
+              {
+                displayName: 'Key',
+                name: 'key',
+                type: 'string',
+                default: '',
+                description: 'Name of the attribute',
+              },
+              {
+                displayName: 'Value',
+                name: 'value',
+                type: 'string',
+                default: '',
+                description: 'Value of the attribute',
+              },
+            ],
+          },
+        ],
+      },
+      {
+        displayName: 'Customer Class',
+        name: 'customerClass',
+        type: 'string',
+        default: '',
+        description: 'Reseller customer class',
+      },
+      {
+        displayName: 'External ID',
+        name: 'externalId',
+        type: 'string',
+        default: '',
+        description: 'The ID of the reseller in an external system',
+      },
+      {
+        displayName: 'Status',
+        name: 'status',
+        type: 'options',
+        options: statusOptions,
+        default: ResellerStatus.ACTIVE,
+        description: 'The status of the reseller account',
+      },
+      {
+        displayName: 'Tax Registration ID',
+        name: 'taxRegId',
+        type: 'string',
+        default: '',
+        description: 'The tax registration ID used in tax calculation',
+      },
+      {
+        displayName: 'Taxation Provider Name',
+        name: 'taxationProviderName',
+        type: 'string',
+        default: '',
+        description: 'Reseller taxation engine name',
+      },
+    ],
+  },
+  {
+    displayName: 'Update Fields',
+    name: 'updateFields',
+    type: 'collection',
+    placeholder: 'Add Field',
+    default: {},
+    displayOptions: {
+      show: {
+        resource: ['reseller'],
+        operation: ['update'],
+      },
+    },
+    options: [
+      {
+        displayName: 'Address',
+        name: 'address',
+        type: 'fixedCollection',
+        default: {},
+        description: 'New postal address of the reseller',
+        options: [
+          {
+            name: 'value',
+            displayName: 'Address',
+            values: addressValues,
+          },
+        ],
+      },
+      {
+        displayName: 'Contact Persons',
+        name: 'contactPersons',
+        type: 'fixedCollection',
+        typeOptions: {
+          multipleValues: true,
+        },
+        default: {},
+        placeholder: 'Add Contact Person',
+        description: 'New contact persons of the reseller',
+        options: [
+          {
+            name: 'contactPerson',
+            displayName: 'Contact Person',
+            values: contactPersonValues,
+          },
+        ],
+      },
+      {
+        displayName: 'External ID',
+        name: 'externalId',
+        type: 'string',
+        default: '',
+        description: 'The ID of the reseller in an external system',
+      },
+      {
+        displayName: 'Name',
+        name: 'name',
+        type: 'string',
+        default: '',
+        description: "The name of the reseller's company",
+      },
+      {
+        displayName: 'Status',
+        name: 'status',
+        type: 'options',
+        options: statusOptions,
+        default: ResellerStatus.ACTIVE,
+        description: 'The new status of the reseller account',
+      },
+      {
+        displayName: 'Tax Registration ID',
+        name: 'taxRegId',
+        type: 'string',
+        default: '',
+        description: 'The tax registration ID used in tax calculation',
+      },
+    ],
+  },
+  {
+    displayName: 'Return All',
+    name: 'returnAll',
+    type: 'boolean',
+    default: false,
+    description: 'Whether to return all results or only up to a given limit',
+    displayOptions: {
+      show: {
+        resource: ['reseller'],
+        operation: ['getMany'],
+      },
+    },
+  },
+  {
+    displayName: 'Limit',
+    name: 'limit',
+    type: 'number',
+    typeOptions: {
+      minValue: 1,
+    },
+    default: PAGINATION.DEFAULT_LIMIT,
+    description: `Max number of results to return (maximum: ${PAGINATION.MAX_LIMIT})`,
+    displayOptions: {
+      show: {
+        resource: ['reseller'],
+        operation: ['getMany'],
+        returnAll: [false],
+      },
+    },
+  },
+  {
+    displayName: 'Filters',
+    name: 'filters',
+    type: 'collection',
+    placeholder: 'Add Filter',
+    default: {},
+    displayOptions: {
+      show: {
+        resource: ['reseller'],
+        operation: ['getMany'],
+      },
+    },
+    options: [
+      {
+        displayName: 'Email',
+        name: 'email',
+        type: 'string',
+        placeholder: 'name@email.com',
+        default: '',
+        description: 'Filter resellers that have a contact person with this email',
+      },
+      {
+        displayName: 'External ID',
+        name: 'externalId',
+        type: 'string',
+        default: '',
+        description: 'Filter resellers by external ID',
+      },
+      {
+        displayName: 'Name',
+        name: 'name',
+        type: 'string',
+        default: '',
+        description: 'Filter resellers by name (partial match)',
+      },
+    ],
+  },
+];
+
+export const resellerFields: INodeProperties[] = baseResellerFields;
@@ -13,7 +13,9 @@
  */
 
 import type { INodeProperties } from 'n8n-workflow';
-import { PAGINATION, presetDateOptions } from '../../utils/constants';
+import { createResourceLocator } from '../common';
+import { createProductMpnLocator, createProductPickerFilters } from '../product';
+import { PAGINATION, RESOURCE_LOCATOR, presetDateOptions } from '../../utils/constants';
 import { SubscriptionStatus } from '../../resources/subscription/subscription.types';
 
 export const subscriptionOperations: INodeProperties[] = [
@@ -31,13 +33,14 @@ export const subscriptionOperations: INodeProperties[] = [
       {
         name: 'Get',
         value: 'get',
-        description: 'Get a subscription by ID',
+        description: 'Get a subscription with its status, products and renewal dates by ID',
         action: 'Get a subscription',
       },
       {
         name: 'Get Many',
         value: 'getMany',
-        description: 'Get many subscriptions',
+        description:
+          'Get many subscriptions, optionally filtered by customer, status or creation date',
         action: 'Get many subscriptions',
       },
       {
@@ -58,20 +61,27 @@ export const subscriptionOperations: INodeProperties[] = [
 ];
 
 export const subscriptionFields: INodeProperties[] = [
-  {
-    displayName: 'Subscription ID',
-    name: 'subscriptionId',
-    type: 'string',
-    required: true,
-    default: '',
-    description: 'The ID of the subscription',
-    displayOptions: {
-      show: {
-        resource: ['subscription'],
-        operation: ['get', 'update', 'updateSpecialPricing'],
+  createResourceLocator(
+    {
+      displayName: 'Subscription',
+      name: 'subscriptionId',
+      description: 'The subscription to use',
+      displayOptions: {
+        show: {
+          resource: ['subscription'],
+          operation: ['get', 'update', 'updateSpecialPricing'],
+        },
       },
     },
-  },
+    'searchSubscriptions',
+    RESOURCE_LOCATOR.URL_PATTERNS.subscription,
+  ),
+  createProductPickerFilters({
+    show: {
+      resource: ['subscription'],
+      operation: ['update'],
+    },
+  }),
   {
     displayName: 'Update Fields',
     name: 'data',
@@ -140,13 +150,7 @@ export const subscriptionFields: INodeProperties[] = [
             name: 'product',
             displayName: 'Product',
             values: [
-              {
-                displayName: 'MPN',
-                name: 'mpn',
-                type: 'string',
-                default: '',
-                description: 'Manufacturer Part Number',
-              },
+              createProductMpnLocator(),
               {
                 displayName: 'ID',
                 name: 'id',
@@ -263,6 +267,41 @@ export const subscriptionFields: INodeProperties[] = [
                             description: 'Price amount',
                             required: true,
                           },
+                          {
+                            displayName: 'Price Tiers',
+                            name: 'priceTiers',
+                            type: 'fixedCollection',
+                            typeOptions: {
+                              multipleValues: true,
+                            },
+                            default: {},
+                            placeholder: 'Add Tier',
+                            description: 'Tiers for tier-priced products',
+                            options: [
+                              {
+                                name: 'tier',
+                                displayName: 'Tier',
+                                values: [
+                                  {
+                                    displayName: 'Lower Limit',
+                                    name: 'lowerLimit',
+                                    type: 'string',
+                                    default: '',
+                                    description: 'Quantity from which this tier applies',
+                                    required: true,
+                                  },
+                                  {
+                                    displayName: 'Amount',
+                                    name: 'amount',
+                                    type: 'string',
+                                    default: '',
+                                    description: 'Tier price amount',
+                                    required: true,
+                                  },
+                                ],
+                              },
+                            ],
+                          },
                         ],
                       },
                     ],
@@ -293,6 +332,41 @@ export const subscriptionFields: INodeProperties[] = [
                             description: 'Price amount',
                             required: true,
                           },
+                          {
+                            displayName: 'Price Tiers',
+                            name: 'priceTiers',
+                            type: 'fixedCollection',
+                            typeOptions: {
+                              multipleValues: true,
+                            },
+                            default: {},
+                            placeholder: 'Add Tier',
+                            description: 'Tiers for tier-priced products',
+                            options: [
+                              {
+                                name: 'tier',
+                                displayName: 'Tier',
+                                values: [
+                                  {
+                                    displayName: 'Lower Limit',
+                                    name: 'lowerLimit',
+                                    type: 'string',
+                                    default: '',
+                                    description: 'Quantity from which this tier applies',
+                                    required: true,
+                                  },
+                                  {
+                                    displayName: 'Amount',
+                                    name: 'amount',
+                                    type: 'string',
+                                    default: '',
+                                    description: 'Tier price amount',
+                                    required: true,
+                                  },
+                                ],
+                              },
+                            ],
+                          },
                         ],
                       },
                     ],
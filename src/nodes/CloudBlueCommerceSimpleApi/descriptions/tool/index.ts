@@ -0,0 +1,56 @@
+/**
+ * @file AI Tool Descriptions
+ * @description Defines the fields shown only when the node is used as an AI agent tool.
+ *
+ * Contains:
+ * - Write operation guard rail
+ * - Flat JSON filters for Get Many operations, described from the filter schemas
+ *
+ * @module CloudBlueCommerceSimpleApi/descriptions/tool
+ */
+
+import type { INodeProperties } from 'n8n-workflow';
+import {
+  customerToolFilterSchema,
+  describeToolFilterSchema,
+  orderToolFilterSchema,
+  subscriptionToolFilterSchema,
+} from '../../utils/tool';
+import type { IToolFilterField } from '../../utils/tool';
+
+const createToolFilters = (
+  resource: string,
+  schema: Record<string, IToolFilterField>,
+): INodeProperties => ({
+  displayName: 'Filters (JSON)',
+  name: 'toolFilters',
+  type: 'json',
+  default: '{}',
+  description: `JSON object of optional filters. ${describeToolFilterSchema(schema)}.`,
+  displayOptions: {
+    show: {
+      '@tool': [true],
+      resource: [resource],
+      operation: ['getMany'],
+    },
+  },
+});
+
+export const toolFields: INodeProperties[] = [
+  {
+    displayName: 'Allow Write Operations',
+    name: 'allowWriteOperations',
+    type: 'boolean',
+    default: false,
+    description:
+      'Whether the agent may run operations that create or change data, such as creating orders or updating subscriptions',
+    displayOptions: {
+      show: {
+        '@tool': [true],
+      },
+    },
+  },
+  createToolFilters('customer', customerToolFilterSchema),
+  createToolFilters('order', orderToolFilterSchema),
+  createToolFilters('subscription', subscriptionToolFilterSchema),
+];
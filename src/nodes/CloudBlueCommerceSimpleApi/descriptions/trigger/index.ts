@@ -0,0 +1,197 @@
+/**
+ * @file Trigger Node Descriptions
+ * @description Defines the base configuration and events of the CloudBlue Commerce SimpleAPI trigger.
+ *
+ * Contains:
+ * - Base trigger metadata (name, icon, polling)
+ * - Event selection (orderCreated, orderStatusChanged, subscriptionStatusChanged,
+ *   subscriptionRenewalDisabled, subscriptionExpiring, customerChanged, resellerChanged)
+ * - Event-specific settings
+ *
+ * @module CloudBlueCommerceSimpleApi/descriptions/trigger
+ */
+
+import type { INodeProperties, INodeTypeDescription } from 'n8n-workflow';
+import { TRIGGER } from '../../utils/constants';
+import {
+  AccountChange,
+  AccountTriggerEvent,
+  FirstRunBehaviour,
+} from '../../triggers/account/account.trigger.types';
+import { OrderTriggerEvent } from '../../triggers/order/order.trigger.types';
+import {
+  SubscriptionDateField,
+  SubscriptionTriggerEvent,
+} from '../../triggers/subscription/subscription.trigger.types';
+import { SubscriptionStatus } from '../../resources/subscription/subscription.types';
+
+export const triggerBaseDescription: Partial<INodeTypeDescription> = {
+  displayName: 'CloudBlue Commerce SimpleAPI Trigger',
+  name: 'cloudBlueCommerceSimpleApiTrigger',
+  icon: 'file:cloudblue.svg',
+  group: ['trigger'],
+  version: 1.0,
+  subtitle: '={{$parameter["event"]}}',
+  description: 'Starts the workflow when CloudBlue Commerce SimpleAPI events occur',
+  polling: true,
+  defaults: {
+    name: 'CloudBlue Commerce SimpleAPI Trigger',
+  },
+  inputs: [],
+  outputs: ['main'],
+  credentials: [
+    {
+      name: 'cloudBlueCommerceSimpleApi',
+      required: true,
+    },
+  ],
+};
+
+export const triggerFields: INodeProperties[] = [
+  {
+    displayName: 'Event',
+    name: 'event',
+    type: 'options',
+    noDataExpression: true,
+    required: true,
+    options: [
+      {
+        name: 'Customer Created or Updated',
+        value: AccountTriggerEvent.CUSTOMER_CHANGED,
+        description: 'Triggers when a customer is created or its details change',
+      },
+      {
+        name: 'Order Created',
+        value: OrderTriggerEvent.CREATED,
+        description: 'Triggers when a new order is placed',
+      },
+      {
+        name: 'Order Status Changed',
+        value: OrderTriggerEvent.STATUS_CHANGED,
+        description:
+          'Triggers when a submitted or processing order moves to another status, e.g. completed or error',
+      },
+      {
+        name: 'Reseller Created or Updated',
+        value: AccountTriggerEvent.RESELLER_CHANGED,
+        description: 'Triggers when a reseller is created or its details change',
+      },
+      {
+        name: 'Subscription Expiring',
+        value: SubscriptionTriggerEvent.EXPIRING,
+        description: 'Triggers when a subscription expiration or renewal date is within N days',
+      },
+      {
+        name: 'Subscription Renewal Disabled',
+        value: SubscriptionTriggerEvent.RENEWAL_DISABLED,
+        description: 'Triggers when auto-renewal is switched off for a subscription',
+      },
+      {
+        name: 'Subscription Status Changed',
+        value: SubscriptionTriggerEvent.STATUS_CHANGED,
+        description: 'Triggers when a subscription changes status, e.g. to hold or terminated',
+      },
+    ],
+    default: OrderTriggerEvent.CREATED,
+  },
+  {
+    displayName: 'Statuses',
+    name: 'statuses',
+    type: 'multiOptions',
+    options: Object.values(SubscriptionStatus).map((status) => ({
+      name: status.charAt(0).toUpperCase() + status.slice(1),
+      value: status,
+    })),
+    default: [],
+    description:
+      'Only trigger when a subscription enters one of these statuses. Leave empty for any.',
+    displayOptions: {
+      show: {
+        event: [SubscriptionTriggerEvent.STATUS_CHANGED],
+      },
+    },
+  },
+  {
+    displayName: 'Date Field',
+    name: 'dateField',
+    type: 'options',
+    options: [
+      {
+        name: 'Expiration Date',
+        value: SubscriptionDateField.EXPIRATION_DATE,
+      },
+      {
+        name: 'Renewal Date',
+        value: SubscriptionDateField.RENEWAL_DATE,
+      },
+    ],
+    default: SubscriptionDateField.EXPIRATION_DATE,
+    description: 'The subscription date to watch',
+    displayOptions: {
+      show: {
+        event: [SubscriptionTriggerEvent.EXPIRING],
+      },
+    },
+  },
+  {
+    displayName: 'Days',
+    name: 'days',
+    type: 'number',
+    typeOptions: {
+      minValue: 1,
+    },
+    default: TRIGGER.SUBSCRIPTION_EXPIRY_DEFAULT_DAYS,
+    description: 'Trigger when the date is this many days away or less',
+    displayOptions: {
+      show: {
+        event: [SubscriptionTriggerEvent.EXPIRING],
+      },
+    },
+  },
+  {
+    displayName: 'Changes',
+    name: 'changes',
+    type: 'multiOptions',
+    options: [
+      {
+        name: 'Created',
+        value: AccountChange.CREATED,
+      },
+      {
+        name: 'Updated',
+        value: AccountChange.UPDATED,
+      },
+    ],
+    default: [AccountChange.CREATED, AccountChange.UPDATED],
+    description: 'Which changes to trigger on',
+    displayOptions: {
+      show: {
+        event: [AccountTriggerEvent.CUSTOMER_CHANGED, AccountTriggerEvent.RESELLER_CHANGED],
+      },
+    },
+  },
+  {
+    displayName: 'On First Run',
+    name: 'firstRun',
+    type: 'options',
+    options: [
+      {
+        name: 'Emit None',
+        value: FirstRunBehaviour.EMIT_NONE,
+        description: 'Only record existing accounts; trigger on later changes',
+      },
+      {
+        name: 'Emit All',
+        value: FirstRunBehaviour.EMIT_ALL,
+        description: 'Emit every existing account as created on the first poll',
+      },
+    ],
+    default: FirstRunBehaviour.EMIT_NONE,
+    description: 'What to emit the first time the trigger polls after activation',
+    displayOptions: {
+      show: {
+        event: [AccountTriggerEvent.CUSTOMER_CHANGED, AccountTriggerEvent.RESELLER_CHANGED],
+      },
+    },
+  },
+];
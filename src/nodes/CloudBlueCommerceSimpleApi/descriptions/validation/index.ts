@@ -0,0 +1,155 @@
+/**
+ * @file Validation Resource Descriptions
+ * @description Defines the operations and fields available for the Validation resource.
+ *
+ * Contains:
+ * - Operation definitions (validateParameters)
+ * - Product and activation parameter inputs
+ * - Display options and conditional rendering
+ *
+ * @module CloudBlueCommerceSimpleApi/descriptions/validation
+ */
+
+import type { INodeProperties } from 'n8n-workflow';
+import { ValidationOrderType } from '../../resources/validation/validation.types';
+
+export const validationOperations: INodeProperties[] = [
+  {
+    displayName: 'Operation',
+    name: 'operation',
+    type: 'options',
+    noDataExpression: true,
+    displayOptions: {
+      show: {
+        resource: ['validation'],
+      },
+    },
+    options: [
+      {
+        name: 'Validate Activation Parameters',
+        value: 'validateParameters',
+        description: 'Validate product activation parameters before placing an order',
+        action: 'Validate activation parameters',
+      },
+    ],
+    default: 'validateParameters',
+  },
+];
+
+const baseValidationFields: INodeProperties[] = [
+  {
+    displayName: 'Customer ID',
+    name: 'customerId',
+    type: 'string',
+    required: true,
+    default: '',
+    description: 'The ID of the customer that will receive the products',
+    displayOptions: {
+      show: {
+        resource: ['validation'],
+        operation: ['validateParameters'],
+      },
+    },
+  },
+  {
+    displayName: 'Order Type',
+    name: 'orderType',
+    type: 'options',
+    options: Object.values(ValidationOrderType).map((type) => ({
+      name: type.charAt(0).toUpperCase() + type.slice(1),
+      value: type,
+    })),
+    default: ValidationOrderType.SALES,
+    description: 'The type of order the parameters are validated for',
+    displayOptions: {
+      show: {
+        resource: ['validation'],
+        operation: ['validateParameters'],
+      },
+    },
+  },
+  {
+    displayName: 'Products',
+    name: 'products',
+    type: 'fixedCollection',
+    typeOptions: {
+      multipleValues: true,
+    },
+    required: true,
+    default: {},
+    placeholder: 'Add Product',
+    displayOptions: {
+      show: {
+        resource: ['validation'],
+        operation: ['validateParameters'],
+      },
+    },
+    options: [
+      {
+        name: 'product',
+        displayName: 'Product',
+        values: [
+          {
+            displayName: 'MPN',
+            name: 'mpn',
+            type: 'string',
+            required: true,
+            default: '',
+            description: 'Manufacturer Part Number',
+          },
+          {
+            displayName: 'Quantity',
+            name: 'quantity',
+            type: 'number',
+            default: 1,
+            description: 'Quantity of the product',
+          },
+          {
+            displayName: 'Vendor',
+            name: 'vendor',
+            type: 'string',
+            default: '',
+            description: 'Manufacturer ID',
+          },
+          {
+            displayName: 'Parameters',
+            name: 'parameters',
+            type: 'fixedCollection',
+            typeOptions: {
+              multipleValues: true,
+            },
+            default: {},
+            placeholder: 'Add Parameter',
+            options: [
+              {
+                name: 'parameter',
+                displayName: 'Parameter',
+                values: [
+                  {
+                    displayName: 'Name',
+                    name: 'name',
+                    type: 'string',
+                    required: true,
+                    default: '',
+                    placeholder: 'domain',
+                    description: 'The name of the product activation parameter',
+                  },
+                  {
+                    displayName: 'Value',
+                    name: 'value',
+                    type: 'string',
+                    default: '',
+                    placeholder: 'example.com',
+                    description: 'The value of the product activation parameter',
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      },
+    ],
+  },
+];
+
+export const validationFields: INodeProperties[] = baseValidationFields;
@@ -5,6 +5,7 @@
  * - API responses and errors
  * - Pagination structures
  * - HTTP response wrappers
+ * - Resource locator list search results
  *
  * These types ensure type safety when interacting with the CloudBlue Commerce API.
  *
@@ -48,3 +49,19 @@ export interface IHttpResponse extends IDataObject {
     'x-correlation-id'?: string;
   };
 }
+
+/**
+ * Entry of a resource locator list; mirrors n8n's INodeListSearchItems,
+ * which the installed n8n-workflow version does not define yet
+ */
+export interface IListSearchItem {
+  name: string;
+  value: string;
+  url?: string;
+  description?: string;
+}
+
+export interface IListSearchResult {
+  results: IListSearchItem[];
+  paginationToken?: string | number;
+}
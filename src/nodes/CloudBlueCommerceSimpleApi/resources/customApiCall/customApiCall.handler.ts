@@ -0,0 +1,147 @@
+/**
+ * @file Custom API Call Resource Handler
+ * @description Sends arbitrary requests to the CloudBlue Commerce API.
+ *
+ * Implements the following operations:
+ * - Make a request with any method, path, query parameters and JSON body
+ *
+ * Features:
+ * - One instance per API service for consistent state management
+ * - Reuses token management, subscription key header, retries and debug redaction
+ * - Comprehensive error handling with correlation IDs
+ * - Optional automatic pagination for list endpoints returning `{ data, pagination }`
+ *
+ * @module CloudBlueCommerceSimpleApi/resources/customApiCall
+ */
+
+import type {
+  IDataObject,
+  IExecuteFunctions,
+  ILoadOptionsFunctions,
+  INodePropertyOptions,
+} from 'n8n-workflow';
+import type { CloudBlueApiService } from '../../services/CloudBlueApiService';
+import { debugLog } from '../../utils/debug';
+import { getAll } from '../../utils/pagination';
+import { CustomApiCallValidator } from './customApiCall.validator';
+
+export class CustomApiCallHandler {
+  private static readonly instances = new WeakMap<CloudBlueApiService, CustomApiCallHandler>();
+  private readonly apiService: CloudBlueApiService;
+  private readonly validator: CustomApiCallValidator;
+
+  private constructor(apiService: CloudBlueApiService) {
+    this.apiService = apiService;
+    this.validator = CustomApiCallValidator.getInstance();
+  }
+
+  public static getInstance(apiService: CloudBlueApiService): CustomApiCallHandler {
+    let instance = CustomApiCallHandler.instances.get(apiService);
+    if (!instance) {
+      instance = new CustomApiCallHandler(apiService);
+      CustomApiCallHandler.instances.set(apiService, instance);
+    }
+    return instance;
+  }
+
+  /**
+   * Send the request, following pages when pagination is enabled
+   */
+  private async request(
+    executeFunctions: IExecuteFunctions,
+    i: number,
+  ): Promise<IDataObject | IDataObject[]> {
+    const { method, path, query, body, paginate } = this.validator.validateRequestOperation(
+      executeFunctions,
+      i,
+    );
+
+    if (paginate) {
+      debugLog('RESOURCE_EXEC', 'Sending paginated custom API call', { path, query });
+      return await getAll<IDataObject>(this.apiService, path, query);
+    }
+
+    debugLog('RESOURCE_EXEC', 'Sending custom API call', { method, path, query });
+
+    const response = await this.apiService.request<IDataObject | IDataObject[]>({
+      method,
+      url: path,
+      params: query,
+      data: body,
+    });
+
+    // Empty responses (e.g. 204 on DELETE) still produce an item
+    return response?.data ?? { success: true };
+  }
+
+  /**
+   * Execute the specified operation
+   */
+  public async execute(
+    executeFunctions: IExecuteFunctions,
+    operation: string,
+    i: number,
+  ): Promise<IDataObject | IDataObject[]> {
+    debugLog('RESOURCE_EXEC', 'Executing custom API call operation', { operation, i });
+
+    try {
+      switch (operation) {
+        case 'request':
+          return await this.request(executeFunctions, i);
+        default:
+          throw new Error(`Operation ${operation} is not supported`);
+      }
+    } catch (error: any) {
+      debugLog('RESOURCE_EXEC', 'Error in custom API call operation', { operation, error });
+
+      // Extract correlation ID if available
+      const correlationId = error.error?.correlationId;
+      const errorMessage = error.error?.message || error.message;
+      const errorPrefix = correlationId ? `[Correlation ID: ${correlationId}] ` : '';
+
+      // Handle specific error cases with standardized messages
+      if (
+        error.httpCode === 404 ||
+        (error.httpCode === 400 && errorMessage.includes('No entity has been found'))
+      ) {
+        throw new Error(`${errorPrefix}Resource not found: ${errorMessage}`);
+      }
+      if (error.httpCode === 400) {
+        throw new Error(`${errorPrefix}Invalid request: ${errorMessage}`);
+      }
+      if (error.httpCode === 401) {
+        throw new Error(`${errorPrefix}Authentication failed: ${errorMessage}`);
+      }
+      if (error.httpCode === 403) {
+        throw new Error(`${errorPrefix}Access denied: ${errorMessage}`);
+      }
+      if (error.httpCode === 409) {
+        throw new Error(`${errorPrefix}Conflict: ${errorMessage}`);
+      }
+      if (error.httpCode === 429) {
+        throw new Error(`${errorPrefix}Rate limit exceeded: ${errorMessage}`);
+      }
+      if (error.httpCode === 500) {
+        throw new Error(`${errorPrefix}Internal server error: ${errorMessage}`);
+      }
+      if (error.httpCode === 503) {
+        throw new Error(`${errorPrefix}Service unavailable: ${errorMessage}`);
+      }
+
+      // For any other error, include as much context as possible
+      throw new Error(`${errorPrefix}${errorMessage}`);
+    }
+  }
+
+  /**
+   * Load options for dynamic fields
+   */
+  public async loadOptions(
+    loadOptionsFunctions: ILoadOptionsFunctions,
+    propertyName: string,
+    currentParameters: Record<string, unknown>,
+  ): Promise<INodePropertyOptions[]> {
+    // Currently, there are no dynamic options to load for custom API calls
+    return [];
+  }
+}
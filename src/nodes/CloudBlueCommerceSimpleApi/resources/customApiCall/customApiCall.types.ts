@@ -0,0 +1,23 @@
+/**
+ * @file Custom API Call Type Definitions
+ * @description Type definitions for the Custom API Call resource.
+ *
+ * Defines:
+ * - Supported HTTP methods
+ * - Validated request structure built from node parameters
+ *
+ * @module CloudBlueCommerceSimpleApi/resources/customApiCall/types
+ */
+
+import type { IDataObject } from 'n8n-workflow';
+import type { IRequestOptions } from '../../services/CloudBlueApiService';
+
+export type CustomApiCallMethod = IRequestOptions['method'];
+
+export interface ICustomApiCallRequest {
+  method: CustomApiCallMethod;
+  path: string;
+  query: IDataObject;
+  body?: IDataObject;
+  paginate: boolean;
+}
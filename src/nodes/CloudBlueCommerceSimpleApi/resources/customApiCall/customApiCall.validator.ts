@@ -0,0 +1,130 @@
+/**
+ * @file Custom API Call Resource Validator
+ * @description Handles validation for custom API call operations in the CloudBlue Commerce API.
+ *
+ * Implements validation for:
+ * - HTTP method
+ * - Request path (relative to the API URL only)
+ * - Query parameters and JSON body
+ * - Pagination settings
+ *
+ * Features:
+ * - Singleton pattern for consistent validation rules
+ * - Builds the request from node parameters
+ *
+ * @module CloudBlueCommerceSimpleApi/resources/customApiCall
+ */
+
+import type { IExecuteFunctions, IDataObject } from 'n8n-workflow';
+import { debugLog } from '../../utils/debug';
+import type { CustomApiCallMethod, ICustomApiCallRequest } from './customApiCall.types';
+
+const METHODS: CustomApiCallMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+const METHODS_WITH_BODY: CustomApiCallMethod[] = ['POST', 'PUT', 'PATCH'];
+
+export class CustomApiCallValidator {
+  private static instance: CustomApiCallValidator;
+
+  private constructor() {}
+
+  public static getInstance(): CustomApiCallValidator {
+    if (!CustomApiCallValidator.instance) {
+      CustomApiCallValidator.instance = new CustomApiCallValidator();
+    }
+    return CustomApiCallValidator.instance;
+  }
+
+  /**
+   * Validates request operation inputs and returns the request to send
+   */
+  public validateRequestOperation(
+    executeFunctions: IExecuteFunctions,
+    i: number,
+  ): ICustomApiCallRequest {
+    debugLog('RESOURCE_EXEC', 'Validating custom API call');
+
+    const method = executeFunctions.getNodeParameter('method', i) as CustomApiCallMethod;
+    if (!METHODS.includes(method)) {
+      throw new Error(`Invalid method: ${method}. Must be one of: ${METHODS.join(', ')}`);
+    }
+
+    const path = this.validatePath(executeFunctions.getNodeParameter('path', i) as string);
+
+    const queryInput = executeFunctions.getNodeParameter('queryParameters', i, {}) as IDataObject;
+    const query = this.validateQuery((queryInput.parameter as IDataObject[]) || []);
+
+    const paginate =
+      method === 'GET' && (executeFunctions.getNodeParameter('paginate', i, false) as boolean);
+    if (paginate && ('limit' in query || 'offset' in query)) {
+      throw new Error('Query parameters limit and offset are set automatically when paginating');
+    }
+
+    const request: ICustomApiCallRequest = { method, path, query, paginate };
+
+    if (METHODS_WITH_BODY.includes(method)) {
+      request.body = this.validateBody(executeFunctions.getNodeParameter('body', i, '{}'));
+    }
+
+    debugLog('RESOURCE_EXEC', 'Custom API call validated', {
+      method,
+      path,
+      query,
+      paginate,
+    });
+    return request;
+  }
+
+  /**
+   * Only paths relative to the API URL are accepted, so the token never leaves the API host.
+   * The API service also rejects any URL that resolves to another origin.
+   */
+  private validatePath(path: string): string {
+    const trimmed = (path || '').trim();
+    if (!trimmed) {
+      throw new Error('Path is required');
+    }
+    // URL parsers read "\" as "/", so "/\evil.com" would name another host
+    if (
+      !trimmed.startsWith('/') ||
+      trimmed.startsWith('//') ||
+      trimmed.includes('://') ||
+      trimmed.includes('\\')
+    ) {
+      throw new Error(`Path must be relative to the API URL and start with "/", got: ${trimmed}`);
+    }
+    if (trimmed.includes('?')) {
+      throw new Error('Add query parameters through the Query Parameters field');
+    }
+    return trimmed;
+  }
+
+  private validateQuery(parameters: IDataObject[]): IDataObject {
+    return parameters.reduce<IDataObject>((query, parameter, index) => {
+      if (!parameter.name) {
+        throw new Error(`Query parameter at index ${index} must have a name`);
+      }
+      query[parameter.name as string] = parameter.value ?? '';
+      return query;
+    }, {});
+  }
+
+  private validateBody(body: unknown): IDataObject | undefined {
+    if (body === undefined || body === null || body === '') {
+      return undefined;
+    }
+
+    let parsed = body;
+    if (typeof body === 'string') {
+      try {
+        parsed = JSON.parse(body);
+      } catch (error) {
+        throw new Error(`Body must be valid JSON: ${(error as Error).message}`);
+      }
+    }
+
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+      throw new Error('Body must be a JSON object');
+    }
+    return Object.keys(parsed).length ? (parsed as IDataObject) : undefined;
+  }
+}
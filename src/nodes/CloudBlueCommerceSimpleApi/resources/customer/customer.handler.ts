@@ -6,10 +6,14 @@
  * - Create new customer
  * - Get customer by ID
  * - Get multiple customers with filtering
+ * - List all customers for polling triggers
+ * - Search customers for resource locator lists
  * - Update customer details
+ * - Create customer for a reseller
+ * - Get multiple customers of a reseller
  *
  * Features:
- * - Singleton pattern for consistent state management
+ * - One instance per API service for consistent state management
  * - Comprehensive error handling with correlation IDs
  * - Input validation through dedicated validator
  * - Pagination support for list operations
@@ -28,11 +32,14 @@ import type { CloudBlueApiService } from '../../services/CloudBlueApiService';
 import { CustomerValidator } from './customer.validator';
 import type { ICustomer, ICustomerFilters } from './customer.types';
 import { debugLog } from '../../utils/debug';
-import { getMany } from '../../utils/pagination';
+import { getAll, getMany } from '../../utils/pagination';
 import { PAGINATION } from '../../utils/constants';
+import { searchList } from '../../utils/resourceLocator';
+import { customerToolFilterSchema, getToolFilters } from '../../utils/tool';
+import type { IListSearchResult } from '../../interfaces/api';
 
 export class CustomerHandler {
-  private static instance: CustomerHandler;
+  private static readonly instances = new WeakMap<CloudBlueApiService, CustomerHandler>();
   private readonly apiService: CloudBlueApiService;
   private readonly validator: CustomerValidator;
 
@@ -42,23 +49,26 @@ export class CustomerHandler {
   }
 
   /**
-   * Gets or creates the singleton instance of CustomerHandler
+   * Gets or creates the CustomerHandler instance for an API service
    *
    * @param apiService - The CloudBlue API service instance
-   * @returns The singleton instance of CustomerHandler
+   * @returns The CustomerHandler instance bound to the API service
    */
   public static getInstance(apiService: CloudBlueApiService): CustomerHandler {
-    if (!CustomerHandler.instance) {
-      CustomerHandler.instance = new CustomerHandler(apiService);
+    let instance = CustomerHandler.instances.get(apiService);
+    if (!instance) {
+      instance = new CustomerHandler(apiService);
+      CustomerHandler.instances.set(apiService, instance);
     }
-    return CustomerHandler.instance;
+    return instance;
   }
 
   /**
    * Executes customer operations based on the provided operation type
    *
    * @param executeFunctions - n8n execution functions for parameter handling
-   * @param operation - The operation to execute (create, get, getMany, update)
+   * @param operation - The operation to execute (create, get, getMany, update,
+   *   createForReseller, getManyForReseller)
    * @param i - The index of the current item being processed
    * @returns Promise resolving to the operation result
    * @throws Error if operation fails or is not supported
@@ -80,6 +90,10 @@ export class CustomerHandler {
           return await this.getMany(executeFunctions, i);
         case 'update':
           return await this.update(executeFunctions, i);
+        case 'createForReseller':
+          return await this.createForReseller(executeFunctions, i);
+        case 'getManyForReseller':
+          return await this.getManyForReseller(executeFunctions, i);
         default:
           throw new Error(`Operation ${operation} not supported`);
       }
@@ -185,6 +199,114 @@ export class CustomerHandler {
    * @throws Error if the operation fails
    */
   private async getMany(executeFunctions: IExecuteFunctions, i: number): Promise<ICustomer[]> {
+    const params = this.getListParams(executeFunctions, i);
+
+    // The reseller filter only applies to the global customer list
+    const filters = executeFunctions.getNodeParameter('filters', i, {}) as IDataObject;
+    if (filters.resellerId) {
+      params.resellerId = filters.resellerId as string;
+    }
+
+    Object.assign(params, getToolFilters(executeFunctions, i, customerToolFilterSchema));
+
+    debugLog('RESOURCE_EXEC', 'Getting customers with filters', { params });
+    return await getMany<ICustomer>(executeFunctions, this.apiService, '/customers', i, params);
+  }
+
+  /**
+   * Lists every customer without node parameters.
+   * Used by the trigger node to detect new and changed customers.
+   *
+   * @param filters - API list filters
+   * @returns Promise resolving to all matching customers
+   */
+  public async listAll(filters: IDataObject = {}): Promise<ICustomer[]> {
+    debugLog('RESOURCE_EXEC', 'Listing all customers', { filters });
+    return await getAll<ICustomer>(this.apiService, '/customers', filters);
+  }
+
+  /**
+   * Searches customers by name for the customer resource locator list.
+   * The API matches names that are similar to the filter.
+   *
+   * @param filter - Search text typed by the user
+   * @param paginationToken - Offset of the page to fetch
+   * @returns Promise resolving to one page of list entries
+   */
+  public async search(
+    filter?: string,
+    paginationToken?: string | number,
+  ): Promise<IListSearchResult> {
+    debugLog('RESOURCE_EXEC', 'Searching customers', { filter, paginationToken });
+    return await searchList<ICustomer>(
+      this.apiService,
+      '/customers',
+      (customer) => ({ name: customer.name || String(customer.id), value: String(customer.id) }),
+      filter,
+      paginationToken,
+      filter?.trim() ? { name: filter.trim() } : undefined,
+    );
+  }
+
+  /**
+   * Creates a new customer on behalf of a reseller
+   *
+   * @param executeFunctions - n8n execution functions for parameter handling
+   * @param i - The index of the current item being processed
+   * @returns Promise resolving to the created customer
+   * @throws Error if the operation fails or validation fails
+   */
+  private async createForReseller(
+    executeFunctions: IExecuteFunctions,
+    i: number,
+  ): Promise<ICustomer> {
+    const resellerId = this.validator.validateResellerId(executeFunctions, i);
+    const customer = this.validator.validateCreateOperation(executeFunctions, i);
+
+    debugLog('RESOURCE_EXEC', 'Creating customer for reseller', { resellerId, customer });
+
+    const response = await this.apiService.request<ICustomer>({
+      method: 'POST',
+      url: `/resellers/${resellerId}/customers`,
+      data: customer,
+    });
+
+    if (!response?.data) {
+      throw new Error('Failed to create customer: No data received from API');
+    }
+
+    return response.data;
+  }
+
+  /**
+   * Retrieves the customers of a reseller with filtering and pagination support
+   *
+   * @param executeFunctions - n8n execution functions for parameter handling
+   * @param i - The index of the current item being processed
+   * @returns Promise resolving to an array of customers
+   * @throws Error if the operation fails
+   */
+  private async getManyForReseller(
+    executeFunctions: IExecuteFunctions,
+    i: number,
+  ): Promise<ICustomer[]> {
+    const resellerId = this.validator.validateResellerId(executeFunctions, i);
+    const params = this.getListParams(executeFunctions, i);
+
+    debugLog('RESOURCE_EXEC', 'Getting reseller customers with filters', { resellerId, params });
+    return await getMany<ICustomer>(
+      executeFunctions,
+      this.apiService,
+      `/resellers/${resellerId}/customers`,
+      i,
+      params,
+    );
+  }
+
+  /**
+   * Builds pagination and filter parameters shared by the customer list operations
+   */
+  private getListParams(executeFunctions: IExecuteFunctions, i: number): ICustomerFilters {
     const params: ICustomerFilters = {};
 
     // Handle pagination parameters
@@ -212,12 +334,7 @@ export class CustomerHandler {
       params.externalId = filters.externalId as string;
     }
 
-    if (filters.resellerId) {
-      params.resellerId = filters.resellerId as string;
-    }
-
-    debugLog('RESOURCE_EXEC', 'Getting customers with filters', { params });
-    return await getMany<ICustomer>(executeFunctions, this.apiService, '/customers', i, params);
+    return params;
   }
 
   /**
@@ -4,13 +4,14 @@
  *
  * Implements validation for:
  * - Get operation parameters
+ * - Reseller ID for reseller-scoped operations
  * - Create operation data validation
  * - Update operation data validation
  * - Get many operation filters
  * - Email format validation
  *
  * Features:
- * - Singleton pattern for consistent validation rules
+ * - One instance per API service for consistent validation rules
  * - Comprehensive input validation
  * - Type checking and data structure validation
  * - Required field validation
@@ -23,6 +24,7 @@ import type { IExecuteFunctions } from 'n8n-workflow';
 import type { IDataObject } from 'n8n-workflow';
 import type { CloudBlueApiService } from '../../services/CloudBlueApiService';
 import { debugLog } from '../../utils/debug';
+import { getResourceLocatorId } from '../../utils/resourceLocator';
 import type {
   ICustomerFilters,
   ICustomer,
@@ -30,10 +32,10 @@ import type {
   ICustomerContact,
   ICustomerAddress,
 } from './customer.types';
-import { PAGINATION } from '../../utils/constants';
+import { PAGINATION, RESOURCE_LOCATOR } from '../../utils/constants';
 
 export class CustomerValidator {
-  private static instance: CustomerValidator;
+  private static readonly instances = new WeakMap<CloudBlueApiService, CustomerValidator>();
   private readonly apiService: CloudBlueApiService;
 
   private constructor(apiService: CloudBlueApiService) {
@@ -41,10 +43,12 @@ export class CustomerValidator {
   }
 
   public static getInstance(apiService: CloudBlueApiService): CustomerValidator {
-    if (!CustomerValidator.instance) {
-      CustomerValidator.instance = new CustomerValidator(apiService);
+    let instance = CustomerValidator.instances.get(apiService);
+    if (!instance) {
+      instance = new CustomerValidator(apiService);
+      CustomerValidator.instances.set(apiService, instance);
     }
-    return CustomerValidator.instance;
+    return instance;
   }
 
   /**
@@ -53,7 +57,12 @@ export class CustomerValidator {
   public validateGetOperation(executeFunctions: IExecuteFunctions, i: number): string {
     debugLog('RESOURCE_EXEC', 'Validating get customer input');
 
-    const id = executeFunctions.getNodeParameter('id', i) as string;
+    const id = getResourceLocatorId(
+      executeFunctions,
+      'id',
+      i,
+      RESOURCE_LOCATOR.URL_PATTERNS.customer,
+    );
     if (!id) {
       throw new Error('Customer ID is required');
     }
@@ -62,6 +71,17 @@ export class CustomerValidator {
     return id;
   }
 
+  /**
+   * Validate reseller ID for operations scoped to a reseller
+   */
+  public validateResellerId(executeFunctions: IExecuteFunctions, i: number): string {
+    const resellerId = executeFunctions.getNodeParameter('resellerId', i) as string;
+    if (!resellerId) {
+      throw new Error('Reseller ID is required');
+    }
+    return resellerId;
+  }
+
   /**
    * Validate create customer input
    */
@@ -73,8 +93,11 @@ export class CustomerValidator {
       throw new Error('Customer name is required');
     }
 
-    const contact = executeFunctions.getNodeParameter('contact', i) as ICustomerContact;
-    const address = executeFunctions.getNodeParameter('address', i) as ICustomerAddress;
+    // Contact and address are fixed collections, so their fields sit under `value`
+    const contactInput = executeFunctions.getNodeParameter('contact', i, {}) as IDataObject;
+    const addressInput = executeFunctions.getNodeParameter('address', i, {}) as IDataObject;
+    const contact = (contactInput.value ?? contactInput) as ICustomerContact;
+    const address = (addressInput.value ?? addressInput) as ICustomerAddress;
     const additionalFields = executeFunctions.getNodeParameter('additionalFields', i) as Partial<
       Omit<ICustomer, 'name' | 'contact' | 'address'>
     >;
@@ -9,13 +9,18 @@
  * - Estimate order price
  * - Get reseller orders
  * - Update order properties and status
+ * - Search orders for resource locator lists
  *
  * Features:
- * - Singleton pattern for consistent state management
+ * - One instance per API service for consistent state management
  * - Comprehensive error handling with correlation IDs
  * - Input validation through dedicated validator
  * - Pagination support for list operations
  * - Advanced filtering with date range support
+ * - MPNs checked against the product catalog before an order is posted
+ * - Dry-run previews of order creation include a price estimate
+ * - Duplicate detection by PO number for idempotent order creation, with concurrent
+ *   creations of the same PO number for a customer serialised within the process
  *
  * @module CloudBlueCommerceSimpleApi/resources/order
  */
@@ -26,17 +31,33 @@ import type {
   ILoadOptionsFunctions,
   INodePropertyOptions,
 } from 'n8n-workflow';
-import type { IOrder, IOrderListResponse, IOrderFilter, IOrderUpdate } from './order.types';
+import { OrderStatus } from './order.types';
+import type {
+  IOrder,
+  IOrderDetail,
+  IOrderEstimate,
+  IOrderEstimateLine,
+  IOrderListResponse,
+  IOrderFilter,
+  IOrderUpdate,
+} from './order.types';
 import type { CloudBlueApiService } from '../../services/CloudBlueApiService';
 import { debugLog } from '../../utils/debug';
 import { convertRelativeDate } from '../../utils/dateConverter';
 import { formatToDateTime, formatToDate } from '../../utils/dateValidator';
 import type { IDateFilter } from '../../interfaces/filters';
 import { OrderValidator } from './order.validator';
-import { getMany } from '../../utils/pagination';
+import { ProductHandler } from '../product/product.handler';
+import { findFirst, getMany } from '../../utils/pagination';
+import { RESOURCE_LOCATOR } from '../../utils/constants';
+import { getResourceLocatorId, searchList } from '../../utils/resourceLocator';
+import { getToolFilters, orderToolFilterSchema } from '../../utils/tool';
+import type { IListSearchResult } from '../../interfaces/api';
 
 export class OrderHandler {
-  private static instance: OrderHandler;
+  private static readonly instances = new WeakMap<CloudBlueApiService, OrderHandler>();
+  // In-flight creations keyed by customer and PO number, shared by all handler instances
+  private static readonly pendingCreations = new Map<string, Promise<IOrder>>();
   private readonly apiService: CloudBlueApiService;
   private readonly validator: OrderValidator;
 
@@ -46,10 +67,12 @@ export class OrderHandler {
   }
 
   public static getInstance(apiService: CloudBlueApiService): OrderHandler {
-    if (!OrderHandler.instance) {
-      OrderHandler.instance = new OrderHandler(apiService);
+    let instance = OrderHandler.instances.get(apiService);
+    if (!instance) {
+      instance = new OrderHandler(apiService);
+      OrderHandler.instances.set(apiService, instance);
     }
-    return OrderHandler.instance;
+    return instance;
   }
 
   /**
@@ -58,7 +81,12 @@ export class OrderHandler {
   private async get(executeFunctions: IExecuteFunctions, i: number): Promise<IOrder> {
     this.validator.validateGetOperation(executeFunctions, i);
 
-    const orderId = executeFunctions.getNodeParameter('orderId', i) as string;
+    const orderId = getResourceLocatorId(
+      executeFunctions,
+      'orderId',
+      i,
+      RESOURCE_LOCATOR.URL_PATTERNS.order,
+    );
     debugLog('RESOURCE_EXEC', 'Getting order by ID', { orderId });
 
     const response = await this.apiService.get<IOrder>(`/orders/${orderId}`);
@@ -76,6 +104,43 @@ export class OrderHandler {
   private async getMany(executeFunctions: IExecuteFunctions, i: number): Promise<IOrder[]> {
     this.validator.validateGetManyOperation(executeFunctions, i);
 
+    const filters = {
+      ...this.getListFilters(executeFunctions, i),
+      ...getToolFilters(executeFunctions, i, orderToolFilterSchema),
+    };
+
+    debugLog('RESOURCE_EXEC', 'Getting orders with filters', { filters });
+
+    return await getMany<IOrder>(executeFunctions, this.apiService, '/orders', i, filters);
+  }
+
+  /**
+   * Get orders placed by a specific reseller with pagination
+   */
+  private async getResellerOrders(
+    executeFunctions: IExecuteFunctions,
+    i: number,
+  ): Promise<IOrder[]> {
+    this.validator.validateGetResellerOrdersOperation(executeFunctions, i);
+
+    const resellerId = executeFunctions.getNodeParameter('resellerId', i) as string;
+    const filters = this.getListFilters(executeFunctions, i);
+
+    debugLog('RESOURCE_EXEC', 'Getting reseller orders with filters', { resellerId, filters });
+
+    return await getMany<IOrder>(
+      executeFunctions,
+      this.apiService,
+      `/resellers/${resellerId}/orders`,
+      i,
+      filters,
+    );
+  }
+
+  /**
+   * Reads list filters and formats them to match API requirements
+   */
+  private getListFilters(executeFunctions: IExecuteFunctions, i: number): IOrderFilter {
     const returnAll = executeFunctions.getNodeParameter('returnAll', i, false) as boolean;
     const filters = executeFunctions.getNodeParameter('filters', i, {}) as IOrderFilter;
 
@@ -99,18 +164,70 @@ export class OrderHandler {
       filters.limit = executeFunctions.getNodeParameter('limit', i) as number;
     }
 
-    debugLog('RESOURCE_EXEC', 'Getting orders with filters', { filters });
-
-    return await getMany<IOrder>(executeFunctions, this.apiService, '/orders', i, filters);
+    return filters;
   }
 
   /**
    * Create a new order
    */
   private async create(executeFunctions: IExecuteFunctions, i: number): Promise<IOrder> {
-    this.validator.validateCreateOperation(executeFunctions, i);
+    const orderData = this.validator.validateCreateOperation(executeFunctions, i);
 
-    const orderData = executeFunctions.getNodeParameter('data', i) as IOrder;
+    const idempotencyKey = this.validator.validateIdempotencyKey(executeFunctions, i, orderData);
+    if (!idempotencyKey) {
+      return await this.postOrder(orderData);
+    }
+
+    orderData.poNumber = idempotencyKey;
+    // Dry runs post nothing, so they cannot race a real creation
+    if (this.apiService.isDryRun) {
+      return await this.createUnlessDuplicate(orderData, idempotencyKey);
+    }
+
+    // The lookup and the POST are not atomic; a second creation of the same PO number
+    // waits for the first one and returns its order
+    const lockKey = `${orderData.customerId}:${idempotencyKey}`;
+    const pending = OrderHandler.pendingCreations.get(lockKey);
+    if (pending) {
+      debugLog('RESOURCE_EXEC', 'Order with this PO number is being created, waiting for it', {
+        customerId: orderData.customerId,
+        poNumber: idempotencyKey,
+      });
+      return { ...(await pending), duplicate: true };
+    }
+
+    const creation = this.createUnlessDuplicate(orderData, idempotencyKey).finally(() => {
+      OrderHandler.pendingCreations.delete(lockKey);
+    });
+    OrderHandler.pendingCreations.set(lockKey, creation);
+    return await creation;
+  }
+
+  /**
+   * Returns the customer's order carrying the PO number, or creates the order if there is none
+   */
+  private async createUnlessDuplicate(orderData: IOrder, poNumber: string): Promise<IOrder> {
+    const existingOrder = await this.findOrderByPoNumber(orderData.customerId, poNumber);
+    if (existingOrder) {
+      debugLog('RESOURCE_EXEC', 'Order already exists, skipping creation', {
+        orderId: existingOrder.id,
+        poNumber,
+      });
+      return { ...existingOrder, duplicate: true };
+    }
+    return await this.postOrder(orderData);
+  }
+
+  /**
+   * Checks the MPNs, formats the dates and posts the order
+   */
+  private async postOrder(orderData: IOrder): Promise<IOrder> {
+    const unknownMpns = await ProductHandler.getInstance(this.apiService).findUnknownMpns(
+      (orderData.products || []).map((product) => product.mpn),
+    );
+    if (unknownMpns.length > 0) {
+      throw new Error(`MPN not found in the product catalog: ${unknownMpns.join(', ')}`);
+    }
 
     // Format dates according to API specification
     if (orderData.startDate) {
@@ -144,9 +261,148 @@ export class OrderHandler {
       throw new Error(`Failed to create order: No data received from API`);
     }
 
+    // The order was not posted; quote it so the preview shows what it would cost
+    if (this.apiService.isDryRun) {
+      return { ...response.data, estimate: await this.requestEstimate(orderData) };
+    }
+
     return response.data;
   }
 
+  /**
+   * Finds a customer's order carrying the PO number, ignoring cancelled orders.
+   * Stops paging through the customer's orders at the first match.
+   */
+  private async findOrderByPoNumber(
+    customerId: string,
+    poNumber: string,
+  ): Promise<IOrder | undefined> {
+    return await findFirst<IOrder>(
+      this.apiService,
+      '/orders',
+      (order) => order.poNumber === poNumber && order.status !== OrderStatus.CANCELLED,
+      { customerId },
+    );
+  }
+
+  /**
+   * Update order properties and status
+   */
+  private async update(executeFunctions: IExecuteFunctions, i: number): Promise<IOrder> {
+    const updateData = this.validator.validateUpdateOperation(executeFunctions, i);
+
+    const orderId = getResourceLocatorId(
+      executeFunctions,
+      'orderId',
+      i,
+      RESOURCE_LOCATOR.URL_PATTERNS.order,
+    );
+    debugLog('RESOURCE_EXEC', 'Updating order', { orderId, updateData });
+
+    const response = await this.apiService.patch<IOrder>(`/orders/${orderId}`, updateData);
+
+    if (!response?.data) {
+      throw new Error(`Failed to update order: No data received from API`);
+    }
+
+    return response.data;
+  }
+
+  /**
+   * Estimate the price of an order without placing it
+   */
+  private async estimate(executeFunctions: IExecuteFunctions, i: number): Promise<IOrderEstimate> {
+    const orderData = this.validator.validateEstimateOperation(executeFunctions, i);
+    return await this.requestEstimate(orderData);
+  }
+
+  /**
+   * Requests a price estimate for an order body
+   */
+  private async requestEstimate(orderData: IOrder): Promise<IOrderEstimate> {
+    debugLog('RESOURCE_EXEC', 'Estimating order', { orderData });
+
+    const response = await this.apiService.request<IOrder>({
+      method: 'POST',
+      url: '/orders/estimate',
+      data: orderData,
+      readOnly: true,
+    });
+
+    if (!response?.data) {
+      throw new Error(`Failed to estimate order: No data received from API`);
+    }
+
+    const estimation = response.data;
+    return {
+      customerId: estimation.customerId || orderData.customerId,
+      type: estimation.type,
+      currency: estimation.total?.currency,
+      totalAmount: estimation.total?.amount,
+      lines: (estimation.details || []).map((detail) => this.flattenOrderDetail(detail)),
+    };
+  }
+
+  /**
+   * Flattens an order detail into scalar fields, leaving out absent values
+   */
+  private flattenOrderDetail(detail: IOrderDetail): IOrderEstimateLine {
+    const line: IOrderEstimateLine = {
+      type: detail.type,
+      mpn: detail.mpn,
+      productId: detail.productId,
+      description: detail.description,
+      quantity: detail.quantity,
+      durationType: detail.duration?.type,
+      duration: detail.duration?.duration,
+      currency: detail.unitPrice?.currency || detail.extendedPrice?.currency,
+      unitPrice: detail.unitPrice?.amount,
+      salesUnitPrice: detail.salesUnitPrice?.amount,
+      extendedPrice: detail.extendedPrice?.amount,
+      salesExtendedPrice: detail.salesExtendedPrice?.amount,
+      discountType: detail.discount?.type,
+      discountValue: detail.discount?.value,
+      discountAmount: detail.discount?.amount,
+      salesDiscountType: detail.salesDiscount?.type,
+      salesDiscountValue: detail.salesDiscount?.value,
+      salesDiscountAmount: detail.salesDiscount?.amount,
+      taxAmount: detail.taxAmount?.amount,
+      salesTaxAmount: detail.salesTaxAmount?.amount,
+      exclusiveTaxAmount: detail.exclusiveTaxAmount?.amount,
+      salesExclusiveTaxAmount: detail.salesExclusiveTaxAmount?.amount,
+      exchangeRate: detail.exchangeRate,
+      exchangeTime: detail.exchangeTime,
+    };
+
+    for (const key of Object.keys(line)) {
+      if (line[key] === undefined) {
+        delete line[key];
+      }
+    }
+    return line;
+  }
+
+  /**
+   * Searches orders by order number or ID for the order resource locator list.
+   * The API has no text filter, so each page is filtered locally.
+   */
+  public async search(
+    filter?: string,
+    paginationToken?: string | number,
+  ): Promise<IListSearchResult> {
+    debugLog('RESOURCE_EXEC', 'Searching orders', { filter, paginationToken });
+    return await searchList<IOrder>(
+      this.apiService,
+      '/orders',
+      (order) => ({
+        name: `${order.orderNumber || order.id} (${order.type}, ${order.status})`,
+        value: String(order.id),
+      }),
+      filter,
+      paginationToken,
+    );
+  }
+
   /**
    * Gets date from filter
    */
@@ -176,8 +432,14 @@ export class OrderHandler {
           return await this.get(executeFunctions, i);
         case 'getMany':
           return await this.getMany(executeFunctions, i);
+        case 'getResellerOrders':
+          return await this.getResellerOrders(executeFunctions, i);
         case 'create':
           return await this.create(executeFunctions, i);
+        case 'estimate':
+          return await this.estimate(executeFunctions, i);
+        case 'update':
+          return await this.update(executeFunctions, i);
         default:
           throw new Error(`Operation ${operation} is not supported`);
       }
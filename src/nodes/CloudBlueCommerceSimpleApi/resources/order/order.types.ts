@@ -231,6 +231,47 @@ export interface IOrderListResponse {
   };
 }
 
+/**
+ * Order detail line flattened to scalar fields for tabular use
+ */
+export interface IOrderEstimateLine extends IDataObject {
+  type: OrderDetailType;
+  mpn: string;
+  productId?: string;
+  description?: string;
+  quantity: number;
+  durationType?: IDuration['type'];
+  duration?: number;
+  currency?: string;
+  unitPrice?: string;
+  salesUnitPrice?: string;
+  extendedPrice?: string;
+  salesExtendedPrice?: string;
+  discountType?: IDiscount['type'];
+  discountValue?: string;
+  discountAmount?: string;
+  salesDiscountType?: IDiscount['type'];
+  salesDiscountValue?: string;
+  salesDiscountAmount?: string;
+  taxAmount?: string;
+  salesTaxAmount?: string;
+  exclusiveTaxAmount?: string;
+  salesExclusiveTaxAmount?: string;
+  exchangeRate?: number;
+  exchangeTime?: string;
+}
+
+/**
+ * Result of the estimate operation
+ */
+export interface IOrderEstimate extends IDataObject {
+  customerId: string;
+  type?: IOrder['type'];
+  currency?: string;
+  totalAmount?: string;
+  lines: IOrderEstimateLine[];
+}
+
 export interface IOrderFilter extends IDataObject {
   customerId?: string;
   subscriptionId?: string;
@@ -256,4 +297,9 @@ export interface IOrderUpdate extends IDataObject {
    * Internal status code of the order
    */
   statusCode?: string;
+
+  /**
+   * Dictionary of custom order attributes
+   */
+  attributes?: Record<string, string>;
 }
@@ -8,6 +8,7 @@
  * - Create operation parameters
  * - Estimate operation parameters
  * - Get reseller orders parameters
+ * - Update operation parameters
  * - Order status validation
  * - Date range validation
  * - Subscription period validation
@@ -25,8 +26,10 @@
 import type { IExecuteFunctions, IDataObject } from 'n8n-workflow';
 import type { CloudBlueApiService } from '../../services/CloudBlueApiService';
 import { debugLog } from '../../utils/debug';
+import { RESOURCE_LOCATOR } from '../../utils/constants';
+import { getResourceLocatorId, getResourceLocatorValue } from '../../utils/resourceLocator';
 import type { IDateFilter } from '../../interfaces/filters';
-import type { IDuration, OrderStatus, IOrder } from './order.types';
+import type { IDuration, OrderStatus, IOrder, IOrderUpdate } from './order.types';
 import { validateDateFilter, validateDateTime, validateDate } from '../../utils/dateValidator';
 
 export class OrderValidator {
@@ -47,7 +50,12 @@ export class OrderValidator {
   public validateGetOperation(executeFunctions: IExecuteFunctions, i: number): void {
     debugLog('RESOURCE_EXEC', 'Validating get operation parameters');
 
-    const orderId = executeFunctions.getNodeParameter('orderId', i) as string;
+    const orderId = getResourceLocatorId(
+      executeFunctions,
+      'orderId',
+      i,
+      RESOURCE_LOCATOR.URL_PATTERNS.order,
+    );
     if (!orderId) {
       throw new Error('Order ID is required');
     }
@@ -74,10 +82,37 @@ export class OrderValidator {
     }
 
     // Validate filters
-    const filters = executeFunctions.getNodeParameter('filters', i, {}) as {
-      [key: string]: any;
-    };
+    const filters = executeFunctions.getNodeParameter('filters', i, {}) as IDataObject;
+    this.validateFilters(filters);
+  }
 
+  /**
+   * Validates get reseller orders operation parameters and filters
+   */
+  public validateGetResellerOrdersOperation(executeFunctions: IExecuteFunctions, i: number): void {
+    debugLog('RESOURCE_EXEC', 'Validating getResellerOrders operation parameters');
+
+    const resellerId = executeFunctions.getNodeParameter('resellerId', i) as string;
+    if (!resellerId) {
+      throw new Error('Reseller ID is required');
+    }
+
+    const returnAll = executeFunctions.getNodeParameter('returnAll', i, false) as boolean;
+    if (!returnAll) {
+      const limit = executeFunctions.getNodeParameter('limit', i) as number;
+      if (typeof limit !== 'number' || limit < 1) {
+        throw new Error('Limit must be a positive number');
+      }
+    }
+
+    const filters = executeFunctions.getNodeParameter('filters', i, {}) as IDataObject;
+    this.validateFilters(filters);
+  }
+
+  /**
+   * Validates order list filters shared by getMany and getResellerOrders
+   */
+  private validateFilters(filters: IDataObject): void {
     // Validate status if provided
     if (filters.status) {
       this.validateOrderStatus(filters.status as OrderStatus);
@@ -85,17 +120,17 @@ export class OrderValidator {
 
     // Validate date filters
     if (filters.creationTimeFrom) {
-      validateDateFilter(filters.creationTimeFrom, 'Creation time from', true);
+      validateDateFilter(filters.creationTimeFrom as IDateFilter, 'Creation time from', true);
     }
 
     if (filters.creationTimeTo) {
-      validateDateFilter(filters.creationTimeTo, 'Creation time to', true);
+      validateDateFilter(filters.creationTimeTo as IDateFilter, 'Creation time to', true);
     }
 
     // Validate date range if both dates are provided
     if (filters.creationTimeFrom && filters.creationTimeTo) {
-      const fromDate = this.getDateFromFilter(filters.creationTimeFrom);
-      const toDate = this.getDateFromFilter(filters.creationTimeTo);
+      const fromDate = this.getDateFromFilter(filters.creationTimeFrom as IDateFilter);
+      const toDate = this.getDateFromFilter(filters.creationTimeTo as IDateFilter);
 
       if (fromDate && toDate && fromDate > toDate) {
         throw new Error('Creation time from must be before creation time to');
@@ -145,12 +180,137 @@ export class OrderValidator {
   }
 
   /**
-   * Validates create operation parameters
+   * Validates create operation parameters and returns the order to create
    */
-  public validateCreateOperation(executeFunctions: IExecuteFunctions, i: number): void {
+  public validateCreateOperation(executeFunctions: IExecuteFunctions, i: number): IOrder {
     debugLog('RESOURCE_EXEC', 'Validating create operation parameters');
-    const orderData = executeFunctions.getNodeParameter('data', i) as IOrder;
+    const orderData = this.getOrderData(executeFunctions, i);
+    this.validateOrderData(orderData);
+    return orderData;
+  }
+
+  /**
+   * Returns the key used to detect duplicate orders, or undefined when the check is off.
+   * The key is the order's PO number, so it must agree with a PO number set in the order data.
+   */
+  public validateIdempotencyKey(
+    executeFunctions: IExecuteFunctions,
+    i: number,
+    orderData: IOrder,
+  ): string | undefined {
+    const preventDuplicates = executeFunctions.getNodeParameter(
+      'preventDuplicates',
+      i,
+      false,
+    ) as boolean;
+    if (!preventDuplicates) {
+      return undefined;
+    }
+
+    const idempotencyKey = (
+      executeFunctions.getNodeParameter('idempotencyKey', i, '') as string
+    ).trim();
+    const poNumber = orderData.poNumber?.trim();
+
+    if (!idempotencyKey && !poNumber) {
+      throw new Error('A PO number or idempotency key is required to prevent duplicate orders');
+    }
+    if (idempotencyKey && poNumber && idempotencyKey !== poNumber) {
+      throw new Error(
+        `Idempotency key "${idempotencyKey}" does not match PO number "${poNumber}". ` +
+          'The key is sent as the PO number, so leave one of them empty or make them equal.',
+      );
+    }
 
+    debugLog('RESOURCE_EXEC', 'Idempotency key validated', { idempotencyKey, poNumber });
+    return idempotencyKey || poNumber;
+  }
+
+  /**
+   * Validates estimate operation parameters and returns the order to estimate
+   */
+  public validateEstimateOperation(executeFunctions: IExecuteFunctions, i: number): IOrder {
+    debugLog('RESOURCE_EXEC', 'Validating estimate operation parameters');
+    const orderData = this.getOrderData(executeFunctions, i);
+    this.validateOrderData(orderData);
+    return orderData;
+  }
+
+  /**
+   * Validates update operation parameters and returns the update body
+   */
+  public validateUpdateOperation(executeFunctions: IExecuteFunctions, i: number): IOrderUpdate {
+    debugLog('RESOURCE_EXEC', 'Validating update operation parameters');
+
+    this.validateGetOperation(executeFunctions, i);
+
+    const data = executeFunctions.getNodeParameter('data', i, {}) as IDataObject;
+    const updateData: IOrderUpdate = {};
+
+    if (data.creditCheck !== undefined) {
+      if (typeof data.creditCheck !== 'boolean') {
+        throw new Error('Credit check must be a boolean');
+      }
+      updateData.creditCheck = data.creditCheck;
+    }
+
+    if (data.statusCode !== undefined) {
+      if (typeof data.statusCode !== 'string' || !data.statusCode.trim()) {
+        throw new Error('Status code must be a non-empty string');
+      }
+      updateData.statusCode = data.statusCode.trim();
+    }
+
+    if (data.attributes) {
+      updateData.attributes = this.validateAttributes(data.attributes as IDataObject);
+    }
+
+    if (Object.keys(updateData).length === 0) {
+      throw new Error('At least one field must be provided for update');
+    }
+
+    debugLog('RESOURCE_EXEC', 'Update operation parameters validated', { updateData });
+    return updateData;
+  }
+
+  /**
+   * Validate and convert the attributes fixed collection to a string record
+   */
+  private validateAttributes(attributesCollection: IDataObject): Record<string, string> {
+    const attributes = (attributesCollection.attribute as IDataObject[]) || [];
+
+    return attributes.reduce<Record<string, string>>((acc, attribute) => {
+      if (!attribute.key) {
+        throw new Error('Attribute key is required');
+      }
+      acc[attribute.key as string] = String(attribute.value ?? '');
+      return acc;
+    }, {});
+  }
+
+  /**
+   * Reads the order data collection, unwrapping its fixed collection values
+   * and the MPN resource locators of its products
+   */
+  private getOrderData(executeFunctions: IExecuteFunctions, i: number): IOrder {
+    const data = executeFunctions.getNodeParameter('data', i, {}) as IDataObject;
+    const values = (data.values as IDataObject) || data;
+    const products = values.products as IDataObject | IDataObject[] | undefined;
+    const entries = Array.isArray(products) ? products : (products?.product as IDataObject[]) || [];
+
+    return {
+      ...values,
+      products: entries.map((product) => ({
+        ...product,
+        mpn: getResourceLocatorValue(product.mpn),
+      })),
+    } as unknown as IOrder;
+  }
+
+  /**
+   * Validates the order body shared by create and estimate
+   */
+  private validateOrderData(orderData: IOrder): void {
     if (!orderData) {
       throw new Error('Order data is required');
     }
@@ -4,6 +4,7 @@
  * Implements:
  * - Get plan by ID
  * - Get many plans with pagination
+ * - Search plans for resource locator lists
  *
  * @module CloudBlueCommerceSimpleApi/resources/plan
  */
@@ -19,9 +20,12 @@ import { PlanValidator } from './plan.validator';
 import type { IPlan, IPlanDetailed, IPlanFilter, IResultListServicePlan } from './plan.types';
 import { debugLog } from '../../utils/debug';
 import { getMany } from '../../utils/pagination';
+import { RESOURCE_LOCATOR } from '../../utils/constants';
+import { getResourceLocatorId, searchList } from '../../utils/resourceLocator';
+import type { IListSearchResult } from '../../interfaces/api';
 
 export class PlanHandler {
-  private static instance: PlanHandler;
+  private static readonly instances = new WeakMap<CloudBlueApiService, PlanHandler>();
   private readonly apiService: CloudBlueApiService;
   private readonly validator: PlanValidator;
 
@@ -31,10 +35,12 @@ export class PlanHandler {
   }
 
   public static getInstance(apiService: CloudBlueApiService): PlanHandler {
-    if (!PlanHandler.instance) {
-      PlanHandler.instance = new PlanHandler(apiService);
+    let instance = PlanHandler.instances.get(apiService);
+    if (!instance) {
+      instance = new PlanHandler(apiService);
+      PlanHandler.instances.set(apiService, instance);
     }
-    return PlanHandler.instance;
+    return instance;
   }
 
   /**
@@ -43,7 +49,12 @@ export class PlanHandler {
   private async get(executeFunctions: IExecuteFunctions, i: number): Promise<IPlanDetailed> {
     this.validator.validateGetOperation(executeFunctions, i);
 
-    const planId = executeFunctions.getNodeParameter('id', i) as string;
+    const planId = getResourceLocatorId(
+      executeFunctions,
+      'id',
+      i,
+      RESOURCE_LOCATOR.URL_PATTERNS.plan,
+    );
     debugLog('RESOURCE_EXEC', 'Getting plan by ID', { planId });
 
     const response = await this.apiService.get<IPlanDetailed>(`/plans/${planId}`);
@@ -74,6 +85,24 @@ export class PlanHandler {
     return await getMany<IPlan>(executeFunctions, this.apiService, '/plans', i, params);
   }
 
+  /**
+   * Search plans by name or ID for the plan resource locator list.
+   * The API has no text filter, so each page is filtered locally.
+   */
+  public async search(
+    filter?: string,
+    paginationToken?: string | number,
+  ): Promise<IListSearchResult> {
+    debugLog('RESOURCE_EXEC', 'Searching plans', { filter, paginationToken });
+    return await searchList<IPlan>(
+      this.apiService,
+      '/plans',
+      (plan) => ({ name: plan.name || String(plan.id), value: String(plan.id) }),
+      filter,
+      paginationToken,
+    );
+  }
+
   /**
    * Execute the specified operation
    */
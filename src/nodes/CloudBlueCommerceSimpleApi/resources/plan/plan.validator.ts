@@ -14,6 +14,8 @@
 
 import type { IExecuteFunctions } from 'n8n-workflow';
 import { debugLog } from '../../utils/debug';
+import { RESOURCE_LOCATOR } from '../../utils/constants';
+import { getResourceLocatorId } from '../../utils/resourceLocator';
 import { BillingModel, BillingPolicy, PeriodType, WhenEffective } from './plan.types';
 
 export class PlanValidator {
@@ -30,7 +32,12 @@ export class PlanValidator {
    * Validates the get operation parameters
    */
   public validateGetOperation(executeFunctions: IExecuteFunctions, i: number): void {
-    const planId = executeFunctions.getNodeParameter('id', i) as string;
+    const planId = getResourceLocatorId(
+      executeFunctions,
+      'id',
+      i,
+      RESOURCE_LOCATOR.URL_PATTERNS.plan,
+    );
     if (!planId) {
       throw new Error('Plan ID is required for get operation');
     }
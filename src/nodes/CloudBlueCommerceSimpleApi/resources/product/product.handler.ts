@@ -0,0 +1,239 @@
+/**
+ * @file Product Resource Handler
+ * @description Implementation of Product Catalog resource operations
+ * Implements:
+ * - Get many products with filtering and pagination
+ * - Product search for the MPN resource locators of other resources
+ * - Checking MPNs against the catalog
+ *
+ * @module CloudBlueCommerceSimpleApi/resources/product
+ */
+
+import type {
+  IExecuteFunctions,
+  IDataObject,
+  ILoadOptionsFunctions,
+  INodePropertyOptions,
+} from 'n8n-workflow';
+import type { CloudBlueApiService } from '../../services/CloudBlueApiService';
+import { ProductValidator } from './product.validator';
+import type { IProduct, IProductFilter, IProductPeriod, IResultListProduct } from './product.types';
+import type { IListSearchResult } from '../../interfaces/api';
+import { debugLog } from '../../utils/debug';
+import { getMany } from '../../utils/pagination';
+import { searchList } from '../../utils/resourceLocator';
+import { mapWithConcurrency } from '../../utils/concurrency';
+import { PAGINATION, PRODUCT_CATALOG } from '../../utils/constants';
+
+export class ProductHandler {
+  private static readonly instances = new WeakMap<CloudBlueApiService, ProductHandler>();
+  private readonly apiService: CloudBlueApiService;
+  private readonly validator: ProductValidator;
+
+  private constructor(apiService: CloudBlueApiService) {
+    this.apiService = apiService;
+    this.validator = ProductValidator.getInstance();
+  }
+
+  public static getInstance(apiService: CloudBlueApiService): ProductHandler {
+    let instance = ProductHandler.instances.get(apiService);
+    if (!instance) {
+      instance = new ProductHandler(apiService);
+      ProductHandler.instances.set(apiService, instance);
+    }
+    return instance;
+  }
+
+  /**
+   * Get many products from the catalog with pagination
+   */
+  private async getMany(executeFunctions: IExecuteFunctions, i: number): Promise<IProduct[]> {
+    const returnAll = executeFunctions.getNodeParameter('returnAll', i, false) as boolean;
+    const filters = executeFunctions.getNodeParameter('filters', i, {}) as IDataObject;
+    const params: IProductFilter = {};
+
+    // Map filters to API parameters
+    if (filters.name) {
+      params.name = filters.name as string;
+    }
+    if (filters.serviceName) {
+      params.serviceName = filters.serviceName as string;
+    }
+    if (filters.mpn) {
+      params.mpn = filters.mpn as string;
+    }
+    if (filters.vendor) {
+      params.vendor = filters.vendor as string;
+    }
+
+    // Handle pagination
+    if (!returnAll) {
+      params.limit = executeFunctions.getNodeParameter('limit', i) as number;
+    }
+
+    debugLog('RESOURCE_EXEC', 'Getting products with params', { params });
+
+    return await getMany<IProduct>(executeFunctions, this.apiService, '/products', i, params);
+  }
+
+  /**
+   * Returns the MPNs that do not match a product in the catalog.
+   * The catalog has no multi-MPN filter, so the MPNs are looked up concurrently.
+   */
+  public async findUnknownMpns(mpns: string[]): Promise<string[]> {
+    const uniqueMpns = [...new Set(mpns)];
+
+    const found = await mapWithConcurrency(
+      uniqueMpns.length,
+      PRODUCT_CATALOG.MPN_LOOKUP_CONCURRENCY,
+      async (index) => {
+        const mpn = uniqueMpns[index];
+        // The mpn filter may match partially, so look for an exact match
+        const response = await this.apiService.getMany<IResultListProduct>(
+          '/products',
+          { mpn },
+          PAGINATION.MAX_LIMIT,
+          0,
+        );
+        const products = response.data?.data || [];
+        return products.some((product) => product.mpn === mpn);
+      },
+    );
+    const unknown = uniqueMpns.filter((_, index) => !found[index]);
+
+    debugLog('RESOURCE_EXEC', 'Checked MPNs against catalog', { mpns, unknown });
+    return unknown;
+  }
+
+  /**
+   * Search products by name for the MPN resource locator list, one page at a time,
+   * optionally narrowed by the vendor and service name of the product picker filters
+   */
+  public async search(
+    filter?: string,
+    paginationToken?: string | number,
+    pickerFilters: IDataObject = {},
+  ): Promise<IListSearchResult> {
+    debugLog('RESOURCE_EXEC', 'Searching products', { filter, paginationToken, pickerFilters });
+
+    const params: IProductFilter = {};
+    if (filter?.trim()) {
+      params.name = filter.trim();
+    }
+    if (pickerFilters.vendor) {
+      params.vendor = pickerFilters.vendor as string;
+    }
+    if (pickerFilters.serviceName) {
+      params.serviceName = pickerFilters.serviceName as string;
+    }
+
+    return await searchList<IProduct>(
+      this.apiService,
+      '/products',
+      (product) => {
+        const details = [this.formatPeriod(product.billingPeriod), this.formatPrice(product)];
+        const summary = details.filter(Boolean).join(', ');
+        return {
+          name: `${product.name || product.mpn}${summary ? ` (${summary})` : ''}`,
+          value: product.mpn,
+          description: [`MPN: ${product.mpn}`, product.vendor, product.serviceName]
+            .filter(Boolean)
+            .join(' | '),
+        };
+      },
+      filter,
+      paginationToken,
+      params,
+    );
+  }
+
+  /**
+   * Formats a billing period such as "1 month"
+   */
+  private formatPeriod(period?: IProductPeriod): string {
+    if (!period?.type || period.type === 'unknown') {
+      return '';
+    }
+    const unit = period.type.replace('_', ' ');
+    return `${period.duration} ${unit}${period.duration === 1 ? '' : 's'}`;
+  }
+
+  /**
+   * Formats the recurring price of a product, or its first price if none is recurring
+   */
+  private formatPrice(product: IProduct): string {
+    const prices = product.prices || [];
+    const price = prices.find((entry) => entry.type === 'recurring') || prices[0];
+    return price ? `${price.amount} ${price.currency}` : '';
+  }
+
+  /**
+   * Execute the specified operation
+   */
+  public async execute(
+    executeFunctions: IExecuteFunctions,
+    operation: string,
+    i: number,
+  ): Promise<IDataObject | IDataObject[]> {
+    debugLog('RESOURCE_EXEC', 'Executing product operation', { operation, i });
+
+    try {
+      this.validator.validateOperation(operation, executeFunctions, i);
+
+      switch (operation) {
+        case 'getMany':
+          return await this.getMany(executeFunctions, i);
+        default:
+          throw new Error(`Operation ${operation} is not supported`);
+      }
+    } catch (error: any) {
+      debugLog('RESOURCE_EXEC', 'Error in product operation', { operation, error });
+
+      // Extract correlation ID if available
+      const correlationId = error.error?.correlationId;
+      const errorMessage = error.error?.message || error.message;
+      const errorPrefix = correlationId ? `[Correlation ID: ${correlationId}] ` : '';
+
+      // Handle specific error cases with standardized messages
+      if (
+        error.httpCode === 404 ||
+        (error.httpCode === 400 && errorMessage.includes('No entity has been found'))
+      ) {
+        throw new Error(`${errorPrefix}Product not found: ${errorMessage}`);
+      }
+      if (error.httpCode === 400) {
+        throw new Error(`${errorPrefix}Invalid request: ${errorMessage}`);
+      }
+      if (error.httpCode === 401) {
+        throw new Error(`${errorPrefix}Authentication failed: ${errorMessage}`);
+      }
+      if (error.httpCode === 403) {
+        throw new Error(`${errorPrefix}Access denied: ${errorMessage}`);
+      }
+      if (error.httpCode === 429) {
+        throw new Error(`${errorPrefix}Rate limit exceeded: ${errorMessage}`);
+      }
+      if (error.httpCode === 500) {
+        throw new Error(`${errorPrefix}Internal server error: ${errorMessage}`);
+      }
+      if (error.httpCode === 503) {
+        throw new Error(`${errorPrefix}Service unavailable: ${errorMessage}`);
+      }
+
+      // For any other error, include as much context as possible
+      throw new Error(`${errorPrefix}${errorMessage}`);
+    }
+  }
+
+  /**
+   * Load options for dynamic fields
+   */
+  public async loadOptions(
+    loadOptionsFunctions: ILoadOptionsFunctions,
+    propertyName: string,
+    currentParameters: Record<string, unknown>,
+  ): Promise<INodePropertyOptions[]> {
+    // MPN fields search the catalog through listSearch instead
+    return [];
+  }
+}
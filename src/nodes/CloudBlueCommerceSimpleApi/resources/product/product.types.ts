@@ -0,0 +1,88 @@
+/**
+ * @file Product Type Definitions
+ * @description Type definitions for the Product Catalog resource based on the OpenAPI specification.
+ *
+ * Defines:
+ * - Core product interfaces (product, price, period)
+ * - Coterming and dependency structures
+ * - Request/Response types for API interactions
+ * - Filter types for list operations
+ *
+ * @module CloudBlueCommerceSimpleApi/resources/product/types
+ */
+
+import type { IDataObject } from 'n8n-workflow';
+
+export type ProductPriceType = 'recurring' | 'setup' | 'overuse';
+
+export type ProductPriceModel =
+  | 'FLAT'
+  | 'TIERED'
+  | 'VOLUME_SUBSCRIPTION'
+  | 'VOLUME_ORDER'
+  | 'VOLUME_RESOURCE_AGGREGATED';
+
+export type ProductBillingModel =
+  | 'chargeBeforeBillingPeriod'
+  | 'chargeAfterBillingPeriod'
+  | 'chargeBeforeSubscriptionPeriod'
+  | 'chargeExternalRating'
+  | 'unknown';
+
+export interface IProductPeriod {
+  type: 'day' | 'month' | 'year' | 'statement_day' | 'unknown';
+  duration: number;
+}
+
+export interface IProductPrice {
+  currency: string;
+  amount: string;
+  type?: ProductPriceType;
+  model?: ProductPriceModel;
+  lowerLimit?: number;
+}
+
+export interface IProductDependsOn {
+  mpn?: string;
+  id?: string;
+}
+
+export interface IProductCoterming {
+  required?: 'MANDATORY' | 'ALLOWED' | 'RESTRICTED';
+  type?: 'SUBSCRIPTION' | 'END_OF_MONTH';
+}
+
+export interface IProduct extends IDataObject {
+  mpn: string;
+  vendor?: string;
+  id?: string;
+  serviceName?: string;
+  name?: string;
+  minimumQuantity?: string;
+  maximumQuantity?: string;
+  prices?: IProductPrice[];
+  costs?: IProductPrice[];
+  billingPeriod?: IProductPeriod;
+  subscriptionPeriod?: IProductPeriod;
+  billingModel?: ProductBillingModel;
+  dependsOn?: IProductDependsOn[];
+  coterming?: IProductCoterming;
+}
+
+export interface IProductFilter extends IDataObject {
+  name?: string;
+  serviceName?: string;
+  mpn?: string;
+  vendor?: string;
+  offset?: number;
+  limit?: number;
+}
+
+export interface IResultListProduct {
+  data: IProduct[];
+  pagination: {
+    offset: number;
+    limit: number;
+    total: number;
+  };
+}
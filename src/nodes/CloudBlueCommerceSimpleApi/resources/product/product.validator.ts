@@ -0,0 +1,65 @@
+/**
+ * @file Product Resource Validator
+ * @description Validation logic for Product Catalog resource operations
+ * Implements:
+ * - Operation validation
+ * - Pagination parameter validation
+ * - Filter validation
+ *
+ * @module CloudBlueCommerceSimpleApi/resources/product
+ */
+
+import type { IExecuteFunctions, IDataObject } from 'n8n-workflow';
+import { debugLog } from '../../utils/debug';
+
+export class ProductValidator {
+  private static instance: ProductValidator;
+
+  public static getInstance(): ProductValidator {
+    if (!ProductValidator.instance) {
+      ProductValidator.instance = new ProductValidator();
+    }
+    return ProductValidator.instance;
+  }
+
+  /**
+   * Validates the getMany operation parameters
+   */
+  public validateGetManyOperation(executeFunctions: IExecuteFunctions, i: number): void {
+    const returnAll = executeFunctions.getNodeParameter('returnAll', i) as boolean;
+    if (!returnAll) {
+      const limit = executeFunctions.getNodeParameter('limit', i) as number;
+      if (limit < 1) {
+        throw new Error('Limit must be greater than 0');
+      }
+    }
+
+    const filters = executeFunctions.getNodeParameter('filters', i, {}) as IDataObject;
+    for (const [key, value] of Object.entries(filters)) {
+      if (value !== undefined && typeof value !== 'string') {
+        throw new Error(`Filter ${key} must be a string`);
+      }
+    }
+
+    debugLog('RESOURCE_EXEC', 'Validated getMany operation', { returnAll, filters });
+  }
+
+  /**
+   * Validates operation parameters based on operation type
+   */
+  public validateOperation(
+    operation: string,
+    executeFunctions: IExecuteFunctions,
+    i: number,
+  ): void {
+    debugLog('RESOURCE_EXEC', 'Validating operation', { operation });
+
+    switch (operation) {
+      case 'getMany':
+        this.validateGetManyOperation(executeFunctions, i);
+        break;
+      default:
+        throw new Error(`Operation ${operation} is not supported`);
+    }
+  }
+}
@@ -1,7 +1,7 @@
 /**
  * @file Resource Registry for CloudBlue Commerce SimpleAPI Node
  * @description Centralizes the management of all resource handlers in the node.
- * Implements a singleton pattern to ensure consistent resource access across the node.
+ * Keeps one registry per API service instance so each credential set gets its own handlers.
  * This registry is responsible for:
  * - Maintaining a type-safe mapping of resource types to their handlers
  * - Providing a unified interface for accessing resource handlers
@@ -10,14 +10,34 @@
  * @module CloudBlueCommerceSimpleApi/resources/registry
  */
 
-import type { IExecuteFunctions, ILoadOptionsFunctions, INodePropertyOptions } from 'n8n-workflow';
+import type {
+  IBinaryKeyData,
+  IExecuteFunctions,
+  ILoadOptionsFunctions,
+  INodeExecutionData,
+  INodePropertyOptions,
+} from 'n8n-workflow';
 import type { CloudBlueApiService } from '../services/CloudBlueApiService';
 import { SubscriptionHandler } from './subscription/subscription.handler';
 import { CustomerHandler } from './customer/customer.handler';
 import { OrderHandler } from './order/order.handler';
 import { PlanHandler } from './plan/plan.handler';
+import { ProductHandler } from './product/product.handler';
+import { ResellerHandler } from './reseller/reseller.handler';
+import { ReportHandler } from './report/report.handler';
+import { ValidationHandler } from './validation/validation.handler';
+import { CustomApiCallHandler } from './customApiCall/customApiCall.handler';
 
-export type ResourceType = 'subscription' | 'customer' | 'order' | 'plan';
+export type ResourceType =
+  | 'subscription'
+  | 'customer'
+  | 'order'
+  | 'plan'
+  | 'product'
+  | 'reseller'
+  | 'report'
+  | 'validation'
+  | 'customApiCall';
 type ResourceFunctions = IExecuteFunctions | ILoadOptionsFunctions;
 
 export interface IResourceHandler {
@@ -29,8 +49,31 @@ export interface IResourceHandler {
   ): Promise<INodePropertyOptions[]>;
 }
 
+/**
+ * Node output item carrying binary data
+ */
+export interface IResourceBinaryItem extends INodeExecutionData {
+  binary: IBinaryKeyData;
+}
+
+/**
+ * Result of operations that emit binary data (e.g. report downloads). Recognised by its
+ * class rather than its shape, so JSON results with `json` and `binary` keys stay JSON.
+ */
+export class ResourceBinaryResponse {
+  public readonly item: IResourceBinaryItem;
+
+  public constructor(item: IResourceBinaryItem) {
+    this.item = item;
+  }
+}
+
+export function isBinaryResponse(response: unknown): response is ResourceBinaryResponse {
+  return response instanceof ResourceBinaryResponse;
+}
+
 export class ResourceRegistry {
-  private static instance: ResourceRegistry;
+  private static readonly instances = new WeakMap<CloudBlueApiService, ResourceRegistry>();
   private resources: Record<ResourceType, IResourceHandler>;
 
   private constructor(apiService: CloudBlueApiService) {
@@ -39,14 +82,21 @@ export class ResourceRegistry {
       customer: CustomerHandler.getInstance(apiService),
       order: OrderHandler.getInstance(apiService),
       plan: PlanHandler.getInstance(apiService),
+      product: ProductHandler.getInstance(apiService),
+      reseller: ResellerHandler.getInstance(apiService),
+      report: ReportHandler.getInstance(apiService),
+      validation: ValidationHandler.getInstance(apiService),
+      customApiCall: CustomApiCallHandler.getInstance(apiService),
     };
   }
 
   public static getInstance(apiService: CloudBlueApiService): ResourceRegistry {
-    if (!ResourceRegistry.instance) {
-      ResourceRegistry.instance = new ResourceRegistry(apiService);
+    let instance = ResourceRegistry.instances.get(apiService);
+    if (!instance) {
+      instance = new ResourceRegistry(apiService);
+      ResourceRegistry.instances.set(apiService, instance);
     }
-    return ResourceRegistry.instance;
+    return instance;
   }
 
   public getResource(resourceType: ResourceType): IResourceHandler | undefined {
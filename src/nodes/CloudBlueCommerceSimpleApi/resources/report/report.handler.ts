@@ -0,0 +1,302 @@
+/**
+ * @file Report Resource Handler
+ * @description Handles report resource operations for the CloudBlue Commerce API.
+ *
+ * Implements the following operations:
+ * - Get report by ID
+ * - Get multiple reports with filtering
+ * - Create (schedule) a one-time rated data report
+ * - Wait for report completion and download the file as binary data
+ *
+ * Features:
+ * - One instance per API service for consistent state management
+ * - Comprehensive error handling with correlation IDs
+ * - Input validation through dedicated validator
+ * - Pagination support for list operations
+ * - Date range filtering with preset and custom dates
+ *
+ * @module CloudBlueCommerceSimpleApi/resources/report
+ */
+
+import type {
+  IDataObject,
+  IExecuteFunctions,
+  ILoadOptionsFunctions,
+  INodePropertyOptions,
+} from 'n8n-workflow';
+import { ReportFormat, ReportStatus, REPORT_MIME_TYPES } from './report.types';
+import type { IReport, IReportFilter } from './report.types';
+import type { CloudBlueApiService } from '../../services/CloudBlueApiService';
+import { debugLog } from '../../utils/debug';
+import { convertRelativeDate } from '../../utils/dateConverter';
+import { formatToDate } from '../../utils/dateValidator';
+import type { IDateFilter } from '../../interfaces/filters';
+import { ReportValidator } from './report.validator';
+import { getMany } from '../../utils/pagination';
+import { sleep } from '../../utils/sleep';
+import { ResourceBinaryResponse } from '../registry';
+
+export class ReportHandler {
+  private static readonly instances = new WeakMap<CloudBlueApiService, ReportHandler>();
+  private readonly apiService: CloudBlueApiService;
+  private readonly validator: ReportValidator;
+
+  private constructor(apiService: CloudBlueApiService) {
+    this.apiService = apiService;
+    this.validator = ReportValidator.getInstance();
+  }
+
+  public static getInstance(apiService: CloudBlueApiService): ReportHandler {
+    let instance = ReportHandler.instances.get(apiService);
+    if (!instance) {
+      instance = new ReportHandler(apiService);
+      ReportHandler.instances.set(apiService, instance);
+    }
+    return instance;
+  }
+
+  /**
+   * Get a report by ID
+   */
+  private async get(executeFunctions: IExecuteFunctions, i: number): Promise<IReport> {
+    const reportId = this.validator.validateGetOperation(executeFunctions, i);
+    debugLog('RESOURCE_EXEC', 'Getting report by ID', { reportId });
+
+    return await this.fetchReport(reportId);
+  }
+
+  /**
+   * Fetch report details from the API
+   */
+  private async fetchReport(reportId: string): Promise<IReport> {
+    const response = await this.apiService.get<IReport>(`/reports/${reportId}`);
+
+    if (!response?.data) {
+      throw new Error(`Failed to get report: No data received from API`);
+    }
+
+    debugLog('RESOURCE_EXEC', 'Fetched report', { reportId, status: response.data.status });
+    return response.data;
+  }
+
+  /**
+   * Get many reports with pagination
+   */
+  private async getMany(executeFunctions: IExecuteFunctions, i: number): Promise<IReport[]> {
+    this.validator.validateGetManyOperation(executeFunctions, i);
+
+    const returnAll = executeFunctions.getNodeParameter('returnAll', i, false) as boolean;
+    const filters = executeFunctions.getNodeParameter('filters', i, {}) as IDataObject;
+    const params: IReportFilter = {};
+
+    if (filters.name) {
+      params.name = filters.name as string;
+    }
+    if (filters.format) {
+      params.format = filters.format as IReportFilter['format'];
+    }
+    if (filters.status) {
+      params.status = filters.status as IReportFilter['status'];
+    }
+    if (filters.type) {
+      params.type = filters.type as IReportFilter['type'];
+    }
+
+    // Format date filters to match API requirements
+    if (filters.from) {
+      const fromDate = this.getDateFromFilter(filters.from as IDateFilter);
+      if (fromDate) {
+        params.from = formatToDate(fromDate);
+      }
+    }
+
+    if (filters.to) {
+      const toDate = this.getDateFromFilter(filters.to as IDateFilter);
+      if (toDate) {
+        params.to = formatToDate(toDate);
+      }
+    }
+
+    // Handle pagination
+    if (!returnAll) {
+      params.limit = executeFunctions.getNodeParameter('limit', i) as number;
+    }
+
+    debugLog('RESOURCE_EXEC', 'Getting reports with filters', { params });
+
+    return await getMany<IReport>(executeFunctions, this.apiService, '/reports', i, params);
+  }
+
+  /**
+   * Schedule a one-time report
+   */
+  private async create(executeFunctions: IExecuteFunctions, i: number): Promise<IReport> {
+    const report = this.validator.validateCreateOperation(executeFunctions, i);
+
+    debugLog('RESOURCE_EXEC', 'Scheduling report', { report });
+
+    const response = await this.apiService.request<IReport>({
+      method: 'POST',
+      url: '/reports',
+      data: report,
+    });
+
+    if (!response?.data) {
+      throw new Error(`Failed to create report: No data received from API`);
+    }
+
+    return response.data;
+  }
+
+  /**
+   * Poll a report until it is completed, then download it as binary data
+   */
+  private async waitAndDownload(
+    executeFunctions: IExecuteFunctions,
+    i: number,
+  ): Promise<ResourceBinaryResponse> {
+    const { reportId, pollInterval, timeout, binaryPropertyName } =
+      this.validator.validateWaitAndDownloadOperation(executeFunctions, i);
+
+    const deadline = Date.now() + timeout * 1000;
+    let report = await this.fetchReport(reportId);
+
+    while (report.status !== ReportStatus.COMPLETED) {
+      if (report.status === ReportStatus.ERROR) {
+        throw new Error(`Report ${reportId} generation failed with status "error"`);
+      }
+      if (Date.now() + pollInterval * 1000 > deadline) {
+        throw new Error(
+          `Timed out after ${timeout} seconds waiting for report ${reportId} to complete (last status: ${report.status})`,
+        );
+      }
+
+      await sleep(pollInterval * 1000);
+      report = await this.fetchReport(reportId);
+    }
+
+    if (!report.downloadUrl) {
+      throw new Error(`Report ${reportId} is completed but has no download URL`);
+    }
+
+    const format = Object.values(ReportFormat).includes(report.format as ReportFormat)
+      ? (report.format as ReportFormat)
+      : undefined;
+    const { data, contentType } = await this.apiService.download(report.downloadUrl);
+    const mimeType = format ? REPORT_MIME_TYPES[format] : contentType;
+    const fileName = this.getFileName(report, format);
+
+    debugLog('RESOURCE_EXEC', 'Report downloaded', { reportId, fileName, mimeType });
+
+    const binaryData = await executeFunctions.helpers.prepareBinaryData(data, fileName, mimeType);
+
+    return new ResourceBinaryResponse({
+      json: report,
+      binary: {
+        [binaryPropertyName]: binaryData,
+      },
+    });
+  }
+
+  /**
+   * Derives the file name from the download URL, falling back to the report name
+   */
+  private getFileName(report: IReport, format?: ReportFormat): string {
+    const urlPath = (report.downloadUrl as string).split('?')[0];
+    const urlFileName = decodeURIComponent(urlPath.substring(urlPath.lastIndexOf('/') + 1));
+    if (urlFileName) {
+      return urlFileName;
+    }
+    return format ? `${report.name}.${format}` : report.name;
+  }
+
+  /**
+   * Gets date from filter
+   */
+  private getDateFromFilter(filter: IDateFilter): Date | null {
+    if (filter.presetDate?.preset) {
+      return convertRelativeDate(filter.presetDate.preset);
+    }
+    if (filter.datePicker?.date) {
+      return new Date(filter.datePicker.date);
+    }
+    return null;
+  }
+
+  /**
+   * Execute the specified operation
+   */
+  public async execute(
+    executeFunctions: IExecuteFunctions,
+    operation: string,
+    i: number,
+  ): Promise<IDataObject | IDataObject[] | ResourceBinaryResponse> {
+    debugLog('RESOURCE_EXEC', 'Executing report operation', { operation, i });
+
+    try {
+      switch (operation) {
+        case 'get':
+          return await this.get(executeFunctions, i);
+        case 'getMany':
+          return await this.getMany(executeFunctions, i);
+        case 'create':
+          return await this.create(executeFunctions, i);
+        case 'waitAndDownload':
+          return await this.waitAndDownload(executeFunctions, i);
+        default:
+          throw new Error(`Operation ${operation} is not supported`);
+      }
+    } catch (error: any) {
+      debugLog('RESOURCE_EXEC', 'Error in report operation', { operation, error });
+
+      // Extract correlation ID if available
+      const correlationId = error.error?.correlationId;
+      const errorMessage = error.error?.message || error.message;
+      const errorPrefix = correlationId ? `[Correlation ID: ${correlationId}] ` : '';
+
+      // Handle specific error cases with standardized messages
+      if (
+        error.httpCode === 404 ||
+        (error.httpCode === 400 && errorMessage.includes('No entity has been found'))
+      ) {
+        throw new Error(`${errorPrefix}Report not found: ${errorMessage}`);
+      }
+      if (error.httpCode === 400) {
+        throw new Error(`${errorPrefix}Invalid request: ${errorMessage}`);
+      }
+      if (error.httpCode === 401) {
+        throw new Error(`${errorPrefix}Authentication failed: ${errorMessage}`);
+      }
+      if (error.httpCode === 403) {
+        throw new Error(`${errorPrefix}Access denied: ${errorMessage}`);
+      }
+      if (error.httpCode === 409) {
+        throw new Error(`${errorPrefix}Conflict: ${errorMessage}`);
+      }
+      if (error.httpCode === 429) {
+        throw new Error(`${errorPrefix}Rate limit exceeded: ${errorMessage}`);
+      }
+      if (error.httpCode === 500) {
+        throw new Error(`${errorPrefix}Internal server error: ${errorMessage}`);
+      }
+      if (error.httpCode === 503) {
+        throw new Error(`${errorPrefix}Service unavailable: ${errorMessage}`);
+      }
+
+      // For any other error, include as much context as possible
+      throw new Error(`${errorPrefix}${errorMessage}`);
+    }
+  }
+
+  /**
+   * Load options for dynamic fields
+   */
+  public async loadOptions(
+    loadOptionsFunctions: ILoadOptionsFunctions,
+    propertyName: string,
+    currentParameters: Record<string, unknown>,
+  ): Promise<INodePropertyOptions[]> {
+    // Currently, there are no dynamic options to load for the report resource
+    return [];
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * @file Report Type Definitions
+ * @description Type definitions for the Report resource.
+ *
+ * Defines:
+ * - Report status, type and format enums
+ * - Report file MIME types
+ * - Core report interface
+ * - Request/Response types for API interactions
+ * - Filter types for list operations
+ *
+ * @module CloudBlueCommerceSimpleApi/resources/report/types
+ */
+
+import type { IDataObject } from 'n8n-workflow';
+
+export enum ReportStatus {
+  SUBMITTED = 'submitted',
+  PROCESSING = 'processing',
+  ERROR = 'error',
+  COMPLETED = 'completed',
+}
+
+export enum ReportType {
+  PERIODIC = 'periodic',
+  DAILY = 'daily',
+  MONTHLY = 'monthly',
+  ONETIME = 'onetime',
+  ON_INVOICE = 'on_invoice',
+}
+
+export enum ReportFormat {
+  CSV = 'csv',
+  XML = 'xml',
+  XLSX = 'xlsx',
+  JSON = 'json',
+}
+
+export const REPORT_MIME_TYPES: Record<ReportFormat, string> = {
+  [ReportFormat.CSV]: 'text/csv',
+  [ReportFormat.XML]: 'application/xml',
+  [ReportFormat.XLSX]: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  [ReportFormat.JSON]: 'application/json',
+};
+
+export interface IReport extends IDataObject {
+  id?: string;
+  name: string;
+  customizationName?: string;
+  status?: ReportStatus | 'unknown';
+  type?: ReportType | 'unknown';
+  format?: ReportFormat | 'unknown';
+  creationDate?: string;
+  startDate: string;
+  endDate?: string;
+  downloadUrl?: string;
+}
+
+export interface IReportFilter extends IDataObject {
+  name?: string;
+  format?: ReportFormat;
+  status?: ReportStatus;
+  type?: ReportType;
+  from?: string;
+  to?: string;
+  offset?: number;
+  limit?: number;
+}
+
+export interface IReportWaitOptions {
+  reportId: string;
+  pollInterval: number;
+  timeout: number;
+  binaryPropertyName: string;
+}
+
+export interface IResultListReport {
+  data: IReport[];
+  pagination: {
+    total: number;
+    limit: number;
+    offset: number;
+  };
+}
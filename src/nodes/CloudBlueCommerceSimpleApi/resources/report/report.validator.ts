@@ -0,0 +1,208 @@
+/**
+ * @file Report Resource Validator
+ * @description Handles validation for report resource operations in the CloudBlue Commerce API.
+ *
+ * Implements validation for:
+ * - Get operation parameters
+ * - Get many operation filters
+ * - Create (one-time report scheduling) parameters
+ * - Wait for completion polling parameters
+ * - Report status, type and format validation
+ * - Date range validation
+ *
+ * Features:
+ * - Singleton pattern for consistent validation rules
+ * - Enumeration value validation
+ * - Date format and range validation
+ *
+ * @module CloudBlueCommerceSimpleApi/resources/report
+ */
+
+import type { IExecuteFunctions, IDataObject } from 'n8n-workflow';
+import { debugLog } from '../../utils/debug';
+import { convertRelativeDate } from '../../utils/dateConverter';
+import { formatToDateTime } from '../../utils/dateValidator';
+import type { IDateFilter } from '../../interfaces/filters';
+import { ReportFormat, ReportStatus, ReportType } from './report.types';
+import type { IReport, IReportWaitOptions } from './report.types';
+
+export class ReportValidator {
+  private static instance: ReportValidator;
+
+  private constructor() {}
+
+  public static getInstance(): ReportValidator {
+    if (!ReportValidator.instance) {
+      ReportValidator.instance = new ReportValidator();
+    }
+    return ReportValidator.instance;
+  }
+
+  /**
+   * Validates get operation parameters
+   */
+  public validateGetOperation(executeFunctions: IExecuteFunctions, i: number): string {
+    debugLog('RESOURCE_EXEC', 'Validating get report parameters');
+
+    const reportId = executeFunctions.getNodeParameter('reportId', i) as string;
+    if (!reportId) {
+      throw new Error('Report ID is required');
+    }
+
+    return reportId;
+  }
+
+  /**
+   * Validates getMany operation parameters and filters
+   */
+  public validateGetManyOperation(executeFunctions: IExecuteFunctions, i: number): void {
+    debugLog('RESOURCE_EXEC', 'Validating getMany report parameters');
+
+    const returnAll = executeFunctions.getNodeParameter('returnAll', i, false) as boolean;
+    if (!returnAll) {
+      const limit = executeFunctions.getNodeParameter('limit', i) as number;
+      if (typeof limit !== 'number' || limit < 1) {
+        throw new Error('Limit must be a positive number');
+      }
+    }
+
+    const filters = executeFunctions.getNodeParameter('filters', i, {}) as IDataObject;
+
+    if (filters.format) {
+      this.validateEnumValue(filters.format as string, Object.values(ReportFormat), 'format');
+    }
+    if (filters.status) {
+      this.validateEnumValue(filters.status as string, Object.values(ReportStatus), 'status');
+    }
+    if (filters.type) {
+      this.validateEnumValue(filters.type as string, Object.values(ReportType), 'type');
+    }
+
+    const fromDate = filters.from
+      ? this.getDateFromFilter(filters.from as IDateFilter, 'From')
+      : null;
+    const toDate = filters.to ? this.getDateFromFilter(filters.to as IDateFilter, 'To') : null;
+
+    if (fromDate && toDate && fromDate > toDate) {
+      throw new Error('From date must be before to date');
+    }
+  }
+
+  /**
+   * Validates create operation parameters and returns the report to schedule
+   */
+  public validateCreateOperation(executeFunctions: IExecuteFunctions, i: number): IReport {
+    debugLog('RESOURCE_EXEC', 'Validating create report parameters');
+
+    const name = executeFunctions.getNodeParameter('name', i) as string;
+    if (!name) {
+      throw new Error('Report name is required');
+    }
+
+    const startDate = this.parseDate(
+      executeFunctions.getNodeParameter('startDate', i) as string,
+      'Start date',
+    );
+
+    const format = executeFunctions.getNodeParameter('format', i, ReportFormat.JSON) as string;
+    this.validateEnumValue(format, Object.values(ReportFormat), 'format');
+
+    const additionalFields = executeFunctions.getNodeParameter(
+      'additionalFields',
+      i,
+      {},
+    ) as IDataObject;
+
+    const report: IReport = {
+      name,
+      format: format as ReportFormat,
+      startDate: formatToDateTime(startDate),
+    };
+
+    if (additionalFields.endDate) {
+      const endDate = this.parseDate(additionalFields.endDate as string, 'End date');
+      if (startDate > endDate) {
+        throw new Error('Start date must be before end date');
+      }
+      report.endDate = formatToDateTime(endDate);
+    }
+
+    if (additionalFields.customizationName) {
+      report.customizationName = additionalFields.customizationName as string;
+    }
+
+    debugLog('RESOURCE_EXEC', 'Create report parameters validated', { report });
+    return report;
+  }
+
+  /**
+   * Validates wait for completion and download parameters
+   */
+  public validateWaitAndDownloadOperation(
+    executeFunctions: IExecuteFunctions,
+    i: number,
+  ): IReportWaitOptions {
+    debugLog('RESOURCE_EXEC', 'Validating wait and download report parameters');
+
+    const reportId = this.validateGetOperation(executeFunctions, i);
+
+    const pollInterval = executeFunctions.getNodeParameter('pollInterval', i, 10) as number;
+    if (typeof pollInterval !== 'number' || pollInterval < 1) {
+      throw new Error('Poll interval must be at least 1 second');
+    }
+
+    const timeout = executeFunctions.getNodeParameter('timeout', i, 600) as number;
+    if (typeof timeout !== 'number' || timeout < pollInterval) {
+      throw new Error('Timeout must be greater than or equal to the poll interval');
+    }
+
+    const binaryPropertyName = executeFunctions.getNodeParameter(
+      'binaryPropertyName',
+      i,
+      'data',
+    ) as string;
+    if (!binaryPropertyName) {
+      throw new Error('Binary property name is required');
+    }
+
+    return { reportId, pollInterval, timeout, binaryPropertyName };
+  }
+
+  /**
+   * Validates that a value is part of an allowed set
+   */
+  private validateEnumValue(value: string, allowed: string[], fieldName: string): void {
+    if (!allowed.includes(value)) {
+      throw new Error(
+        `Invalid report ${fieldName}: ${value}. Must be one of: ${allowed.join(', ')}`,
+      );
+    }
+  }
+
+  /**
+   * Gets date from filter, throwing if the filter holds an invalid date
+   */
+  private getDateFromFilter(filter: IDateFilter, fieldName: string): Date | null {
+    if (filter.presetDate?.preset) {
+      return convertRelativeDate(filter.presetDate.preset);
+    }
+    if (filter.datePicker?.date) {
+      return this.parseDate(filter.datePicker.date, fieldName);
+    }
+    return null;
+  }
+
+  /**
+   * Parses a date string, throwing a descriptive error when invalid
+   */
+  private parseDate(value: string, fieldName: string): Date {
+    if (!value) {
+      throw new Error(`${fieldName} is required`);
+    }
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      throw new Error(`${fieldName} is not a valid date`);
+    }
+    return date;
+  }
+}
@@ -0,0 +1,244 @@
+/**
+ * @file Reseller Resource Handler
+ * @description Handles reseller resource operations for the CloudBlue Commerce API.
+ *
+ * Implements the following operations:
+ * - Create new reseller
+ * - Get reseller by ID
+ * - Get multiple resellers with filtering
+ * - List all resellers for polling triggers
+ * - Update reseller details
+ *
+ * Features:
+ * - One instance per API service for consistent state management
+ * - Comprehensive error handling with correlation IDs
+ * - Input validation through dedicated validator
+ * - Pagination support for list operations
+ * - Filtering capabilities for reseller queries
+ *
+ * @module CloudBlueCommerceSimpleApi/resources/reseller
+ */
+
+import type {
+  IExecuteFunctions,
+  IDataObject,
+  ILoadOptionsFunctions,
+  INodePropertyOptions,
+} from 'n8n-workflow';
+import type { CloudBlueApiService } from '../../services/CloudBlueApiService';
+import { ResellerValidator } from './reseller.validator';
+import type { IReseller } from './reseller.types';
+import { debugLog } from '../../utils/debug';
+import { getAll, getMany } from '../../utils/pagination';
+
+export class ResellerHandler {
+  private static readonly instances = new WeakMap<CloudBlueApiService, ResellerHandler>();
+  private readonly apiService: CloudBlueApiService;
+  private readonly validator: ResellerValidator;
+
+  private constructor(apiService: CloudBlueApiService) {
+    this.apiService = apiService;
+    this.validator = ResellerValidator.getInstance(apiService);
+  }
+
+  /**
+   * Gets or creates the ResellerHandler instance for an API service
+   *
+   * @param apiService - The CloudBlue API service instance
+   * @returns The ResellerHandler instance bound to the API service
+   */
+  public static getInstance(apiService: CloudBlueApiService): ResellerHandler {
+    let instance = ResellerHandler.instances.get(apiService);
+    if (!instance) {
+      instance = new ResellerHandler(apiService);
+      ResellerHandler.instances.set(apiService, instance);
+    }
+    return instance;
+  }
+
+  /**
+   * Executes reseller operations based on the provided operation type
+   *
+   * @param executeFunctions - n8n execution functions for parameter handling
+   * @param operation - The operation to execute (create, get, getMany, update)
+   * @param i - The index of the current item being processed
+   * @returns Promise resolving to the operation result
+   * @throws Error if operation fails or is not supported
+   */
+  public async execute(
+    executeFunctions: IExecuteFunctions,
+    operation: string,
+    i: number,
+  ): Promise<IDataObject | IDataObject[]> {
+    debugLog('RESOURCE_EXEC', `Executing reseller ${operation} operation`);
+
+    try {
+      switch (operation) {
+        case 'create':
+          return await this.create(executeFunctions, i);
+        case 'get':
+          return await this.get(executeFunctions, i);
+        case 'getMany':
+          return await this.getMany(executeFunctions, i);
+        case 'update':
+          return await this.update(executeFunctions, i);
+        default:
+          throw new Error(`Operation ${operation} not supported`);
+      }
+    } catch (error: any) {
+      debugLog('RESOURCE_EXEC', 'Error in reseller operation', { operation, error });
+
+      // Extract correlation ID if available
+      const correlationId = error.error?.correlationId;
+      const errorMessage = error.error?.message || error.message;
+      const errorPrefix = correlationId ? `[Correlation ID: ${correlationId}] ` : '';
+
+      // Handle specific error cases with standardized messages
+      if (
+        error.httpCode === 404 ||
+        (error.httpCode === 400 && errorMessage.includes('No entity has been found'))
+      ) {
+        throw new Error(`${errorPrefix}Reseller not found: ${errorMessage}`);
+      }
+      if (error.httpCode === 400) {
+        throw new Error(`${errorPrefix}Invalid request: ${errorMessage}`);
+      }
+      if (error.httpCode === 401) {
+        throw new Error(`${errorPrefix}Authentication failed: ${errorMessage}`);
+      }
+      if (error.httpCode === 403) {
+        throw new Error(`${errorPrefix}Access denied: ${errorMessage}`);
+      }
+      if (error.httpCode === 409) {
+        throw new Error(`${errorPrefix}Conflict: ${errorMessage}`);
+      }
+      if (error.httpCode === 429) {
+        throw new Error(`${errorPrefix}Rate limit exceeded: ${errorMessage}`);
+      }
+      if (error.httpCode === 500) {
+        throw new Error(`${errorPrefix}Internal server error: ${errorMessage}`);
+      }
+      if (error.httpCode === 503) {
+        throw new Error(`${errorPrefix}Service unavailable: ${errorMessage}`);
+      }
+
+      // For any other error, include as much context as possible
+      throw new Error(`${errorPrefix}${errorMessage}`);
+    }
+  }
+
+  /**
+   * Creates a new reseller
+   *
+   * @param executeFunctions - n8n execution functions for parameter handling
+   * @param i - The index of the current item being processed
+   * @returns Promise resolving to the created reseller
+   * @throws Error if the operation fails or validation fails
+   */
+  private async create(executeFunctions: IExecuteFunctions, i: number): Promise<IReseller> {
+    const reseller = this.validator.validateCreateOperation(executeFunctions, i);
+
+    debugLog('RESOURCE_EXEC', 'Creating reseller', { reseller });
+
+    const response = await this.apiService.request<IReseller>({
+      method: 'POST',
+      url: '/resellers',
+      data: reseller,
+    });
+
+    if (!response?.data) {
+      throw new Error('Failed to create reseller: No data received from API');
+    }
+
+    return response.data;
+  }
+
+  /**
+   * Retrieves a reseller by ID
+   *
+   * @param executeFunctions - n8n execution functions for parameter handling
+   * @param i - The index of the current item being processed
+   * @returns Promise resolving to the reseller details
+   * @throws Error if the reseller is not found or operation fails
+   */
+  private async get(executeFunctions: IExecuteFunctions, i: number): Promise<IReseller> {
+    const id = this.validator.validateGetOperation(executeFunctions, i);
+
+    debugLog('RESOURCE_EXEC', 'Getting reseller by ID', { id });
+
+    const response = await this.apiService.get<IReseller>(`/resellers/${id}`);
+
+    if (!response?.data) {
+      throw new Error('Failed to retrieve reseller: No data received from API');
+    }
+
+    return response.data;
+  }
+
+  /**
+   * Retrieves multiple resellers with filtering and pagination support
+   *
+   * @param executeFunctions - n8n execution functions for parameter handling
+   * @param i - The index of the current item being processed
+   * @returns Promise resolving to an array of resellers
+   * @throws Error if the operation fails
+   */
+  private async getMany(executeFunctions: IExecuteFunctions, i: number): Promise<IReseller[]> {
+    const params = this.validator.validateGetManyOperation(executeFunctions, i);
+
+    debugLog('RESOURCE_EXEC', 'Getting resellers with filters', { params });
+    return await getMany<IReseller>(executeFunctions, this.apiService, '/resellers', i, params);
+  }
+
+  /**
+   * Lists every reseller without node parameters.
+   * Used by the trigger node to detect new and changed resellers.
+   *
+   * @param filters - API list filters
+   * @returns Promise resolving to all matching resellers
+   */
+  public async listAll(filters: IDataObject = {}): Promise<IReseller[]> {
+    debugLog('RESOURCE_EXEC', 'Listing all resellers', { filters });
+    return await getAll<IReseller>(this.apiService, '/resellers', filters);
+  }
+
+  /**
+   * Updates an existing reseller
+   *
+   * @param executeFunctions - n8n execution functions for parameter handling
+   * @param i - The index of the current item being processed
+   * @returns Promise resolving to the updated reseller
+   * @throws Error if the reseller is not found or operation fails
+   */
+  private async update(executeFunctions: IExecuteFunctions, i: number): Promise<IReseller> {
+    const id = this.validator.validateGetOperation(executeFunctions, i);
+    const updateData = this.validator.validateUpdateOperation(executeFunctions, i);
+
+    debugLog('RESOURCE_EXEC', 'Updating reseller', { id, updateData });
+
+    const response = await this.apiService.patch<IReseller>(`/resellers/${id}`, updateData);
+
+    if (!response?.data) {
+      throw new Error('Failed to update reseller: No data received from API');
+    }
+
+    return response.data;
+  }
+
+  /**
+   * Loads dynamic options for reseller-related fields
+   *
+   * @param loadOptionsFunctions - n8n functions for loading options
+   * @param propertyName - The name of the property to load options for
+   * @param currentParameters - Current parameter values
+   * @returns Promise resolving to the available options
+   */
+  public async loadOptions(
+    loadOptionsFunctions: ILoadOptionsFunctions,
+    propertyName: string,
+    currentParameters: Record<string, unknown>,
+  ): Promise<INodePropertyOptions[]> {
+    debugLog('RESOURCE_EXEC', 'Loading options', { propertyName, currentParameters });
+    return [];
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * @file Reseller Type Definitions
+ * @description Type definitions for the Reseller resource.
+ *
+ * Defines:
+ * - Core reseller interfaces (account status, contact person, address)
+ * - Request/Response types for API interactions
+ * - Update interfaces for modification operations
+ * - Filter types for list operations
+ *
+ * @module CloudBlueCommerceSimpleApi/resources/reseller/types
+ */
+
+import type { IDataObject } from 'n8n-workflow';
+
+export enum ResellerStatus {
+  PENDING = 'pending',
+  ACTIVE = 'active',
+  CREDIT_HOLD = 'creditHold',
+  ADMIN_HOLD = 'adminHold',
+  CANCELLED = 'cancelled',
+  ERROR = 'error',
+}
+
+export type ContactPersonType = 'admin' | 'billing' | 'technical';
+
+export interface IResellerContactPerson extends IDataObject {
+  type: ContactPersonType;
+  firstName: string;
+  lastName: string;
+  email: string;
+  phoneNumber: string;
+  login?: string;
+  password?: string;
+}
+
+export interface IResellerAddress extends IDataObject {
+  streetAddress: string;
+  addressExtension?: string;
+  postalCode: string;
+  city: string;
+  state?: string;
+  countryCode: string;
+}
+
+export interface IReseller extends IDataObject {
+  id?: string;
+  externalId?: string;
+  attributes?: Record<string, string>;
+  status?: ResellerStatus;
+  name: string;
+  address: IResellerAddress;
+  contactPersons: IResellerContactPerson[];
+  language: string;
+  taxRegId?: string;
+  currency: string;
+  taxationProviderName?: string;
+  customerClass?: string;
+}
+
+export interface IResellerUpdate extends IDataObject {
+  externalId?: string;
+  name?: string;
+  taxRegId?: string;
+  status?: ResellerStatus;
+  address?: IResellerAddress;
+  contactPersons?: IResellerContactPerson[];
+}
+
+export interface IResellerFilters extends IDataObject {
+  name?: string;
+  email?: string;
+  externalId?: string;
+  offset?: number;
+  limit?: number;
+}
+
+export interface IResultListReseller {
+  data: IReseller[];
+  pagination: {
+    total: number;
+    limit: number;
+    offset: number;
+  };
+}
@@ -0,0 +1,317 @@
+/**
+ * @file Reseller Resource Validator
+ * @description Handles validation for reseller resource operations in the CloudBlue Commerce API.
+ *
+ * Implements validation for:
+ * - Get operation parameters
+ * - Create operation data validation
+ * - Update operation data validation
+ * - Get many operation filters
+ * - Address and contact person structure validation
+ *
+ * Features:
+ * - One instance per API service for consistent validation rules
+ * - Unwrapping of n8n fixed collections into API request bodies
+ * - Required field validation
+ * - Format validation for specific fields (email, country code)
+ *
+ * @module CloudBlueCommerceSimpleApi/resources/reseller
+ */
+
+import type { IExecuteFunctions, IDataObject } from 'n8n-workflow';
+import type { CloudBlueApiService } from '../../services/CloudBlueApiService';
+import { debugLog } from '../../utils/debug';
+import { PAGINATION } from '../../utils/constants';
+import { ResellerStatus } from './reseller.types';
+import type {
+  IReseller,
+  IResellerAddress,
+  IResellerContactPerson,
+  IResellerFilters,
+  IResellerUpdate,
+} from './reseller.types';
+
+export class ResellerValidator {
+  private static readonly instances = new WeakMap<CloudBlueApiService, ResellerValidator>();
+  private readonly apiService: CloudBlueApiService;
+
+  private constructor(apiService: CloudBlueApiService) {
+    this.apiService = apiService;
+  }
+
+  public static getInstance(apiService: CloudBlueApiService): ResellerValidator {
+    let instance = ResellerValidator.instances.get(apiService);
+    if (!instance) {
+      instance = new ResellerValidator(apiService);
+      ResellerValidator.instances.set(apiService, instance);
+    }
+    return instance;
+  }
+
+  /**
+   * Validate get operation parameters
+   */
+  public validateGetOperation(executeFunctions: IExecuteFunctions, i: number): string {
+    debugLog('RESOURCE_EXEC', 'Validating get reseller input');
+
+    const id = executeFunctions.getNodeParameter('resellerId', i) as string;
+    if (!id) {
+      throw new Error('Reseller ID is required');
+    }
+
+    debugLog('RESOURCE_EXEC', 'Get reseller input validated', { id });
+    return id;
+  }
+
+  /**
+   * Validate create reseller input
+   */
+  public validateCreateOperation(executeFunctions: IExecuteFunctions, i: number): IReseller {
+    debugLog('RESOURCE_EXEC', 'Validating create reseller input');
+
+    const name = executeFunctions.getNodeParameter('name', i) as string;
+    if (!name) {
+      throw new Error('Reseller name is required');
+    }
+
+    const currency = executeFunctions.getNodeParameter('currency', i) as string;
+    if (!currency) {
+      throw new Error('Reseller currency is required');
+    }
+
+    const language = executeFunctions.getNodeParameter('language', i) as string;
+    if (!language) {
+      throw new Error('Reseller language is required');
+    }
+
+    const address = this.validateAddress(
+      executeFunctions.getNodeParameter('address', i, {}) as IDataObject,
+    );
+    if (!address) {
+      throw new Error('Reseller address is required');
+    }
+
+    const contactPersons = this.validateContactPersons(
+      executeFunctions.getNodeParameter('contactPersons', i, {}) as IDataObject,
+    );
+    if (contactPersons.length === 0) {
+      throw new Error('At least one contact person is required');
+    }
+
+    const additionalFields = executeFunctions.getNodeParameter(
+      'additionalFields',
+      i,
+      {},
+    ) as IDataObject;
+
+    const reseller: IReseller = {
+      name,
+      currency,
+      language,
+      address,
+      contactPersons,
+    };
+
+    if (additionalFields.externalId) {
+      reseller.externalId = additionalFields.externalId as string;
+    }
+    if (additionalFields.taxRegId) {
+      reseller.taxRegId = additionalFields.taxRegId as string;
+    }
+    if (additionalFields.taxationProviderName) {
+      reseller.taxationProviderName = additionalFields.taxationProviderName as string;
+    }
+    if (additionalFields.customerClass) {
+      reseller.customerClass = additionalFields.customerClass as string;
+    }
+    if (additionalFields.status) {
+      reseller.status = this.validateStatus(additionalFields.status as string);
+    }
+    if (additionalFields.attributes) {
+      reseller.attributes = this.validateAttributes(additionalFields.attributes as IDataObject);
+    }
+
+    debugLog('RESOURCE_EXEC', 'Create reseller input validated', { reseller });
+    return reseller;
+  }
+
+  /**
+   * Validate update reseller input
+   */
+  public validateUpdateOperation(executeFunctions: IExecuteFunctions, i: number): IResellerUpdate {
+    debugLog('RESOURCE_EXEC', 'Validating update reseller input');
+
+    const id = this.validateGetOperation(executeFunctions, i);
+    const updateFields = executeFunctions.getNodeParameter('updateFields', i, {}) as IDataObject;
+
+    if (Object.keys(updateFields).length === 0) {
+      throw new Error('At least one field to update must be provided');
+    }
+
+    const updateData: IResellerUpdate = {};
+
+    if (updateFields.name) {
+      updateData.name = updateFields.name as string;
+    }
+    if (updateFields.externalId) {
+      updateData.externalId = updateFields.externalId as string;
+    }
+    if (updateFields.taxRegId) {
+      updateData.taxRegId = updateFields.taxRegId as string;
+    }
+    if (updateFields.status) {
+      updateData.status = this.validateStatus(updateFields.status as string);
+    }
+    if (updateFields.address) {
+      const address = this.validateAddress(updateFields.address as IDataObject);
+      if (address) {
+        updateData.address = address;
+      }
+    }
+    if (updateFields.contactPersons) {
+      const contactPersons = this.validateContactPersons(
+        updateFields.contactPersons as IDataObject,
+      );
+      if (contactPersons.length > 0) {
+        updateData.contactPersons = contactPersons;
+      }
+    }
+
+    if (Object.keys(updateData).length === 0) {
+      throw new Error('At least one field to update must be provided');
+    }
+
+    debugLog('RESOURCE_EXEC', 'Update reseller input validated', { id, updateData });
+    return updateData;
+  }
+
+  /**
+   * Validate get many resellers filters
+   */
+  public validateGetManyOperation(
+    executeFunctions: IExecuteFunctions,
+    i: number,
+  ): IResellerFilters {
+    debugLog('RESOURCE_EXEC', 'Validating get many resellers filters');
+
+    const filters = executeFunctions.getNodeParameter('filters', i, {}) as IDataObject;
+    const params: IResellerFilters = {};
+
+    if (filters.name) {
+      params.name = filters.name as string;
+    }
+    if (filters.email) {
+      if (!this.isValidEmail(filters.email as string)) {
+        throw new Error('Invalid email format in filter');
+      }
+      params.email = filters.email as string;
+    }
+    if (filters.externalId) {
+      params.externalId = filters.externalId as string;
+    }
+
+    // Handle pagination parameters
+    const returnAll = executeFunctions.getNodeParameter('returnAll', i, false) as boolean;
+    params.limit = returnAll
+      ? PAGINATION.MAX_LIMIT
+      : (executeFunctions.getNodeParameter('limit', i) as number);
+    if (!returnAll && params.limit <= 0) {
+      throw new Error('Limit must be greater than 0');
+    }
+
+    debugLog('RESOURCE_EXEC', 'Get many resellers filters validated', { params });
+    return params;
+  }
+
+  /**
+   * Validate and unwrap the address fixed collection
+   */
+  private validateAddress(addressCollection: IDataObject): IResellerAddress | undefined {
+    const address = addressCollection.value as IResellerAddress | undefined;
+    if (!address) {
+      return undefined;
+    }
+
+    if (!address.streetAddress || !address.city || !address.postalCode || !address.countryCode) {
+      throw new Error(
+        'Address fields (street address, city, postal code, country code) are required',
+      );
+    }
+
+    if (!/^[A-Z]{2}$/.test(address.countryCode)) {
+      throw new Error('Country code must be a two uppercase character ISO 3166-1 alpha-2 code');
+    }
+
+    return address;
+  }
+
+  /**
+   * Validate and unwrap the contact persons fixed collection
+   */
+  private validateContactPersons(contactsCollection: IDataObject): IResellerContactPerson[] {
+    const contacts = (contactsCollection.contactPerson as IResellerContactPerson[]) || [];
+
+    return contacts.map((contact, index) => {
+      if (!contact.firstName || !contact.lastName || !contact.phoneNumber) {
+        throw new Error(
+          `Contact person at index ${index} must have a first name, last name and phone number`,
+        );
+      }
+      if (!contact.email || !this.isValidEmail(contact.email)) {
+        throw new Error(`Contact person at index ${index} must have a valid email`);
+      }
+
+      const contactPerson: IResellerContactPerson = {
+        type: contact.type || 'admin',
+        firstName: contact.firstName,
+        lastName: contact.lastName,
+        email: contact.email,
+        phoneNumber: contact.phoneNumber,
+      };
+
+      // Login and password are only honoured by the platform for admin contacts
+      if (contactPerson.type === 'admin') {
+        if (contact.login) contactPerson.login = contact.login;
+        if (contact.password) contactPerson.password = contact.password;
+      }
+
+      return contactPerson;
+    });
+  }
+
+  /**
+   * Validate and convert the attributes fixed collection to a string record
+   */
+  private validateAttributes(attributesCollection: IDataObject): Record<string, string> {
+    const attributes = (attributesCollection.attribute as IDataObject[]) || [];
+
+    return attributes.reduce<Record<string, string>>((acc, attribute) => {
+      if (!attribute.key) {
+        throw new Error('Attribute key is required');
+      }
+      acc[attribute.key as string] = String(attribute.value ?? '');
+      return acc;
+    }, {});
+  }
+
+  /**
+   * Validate reseller status
+   */
+  private validateStatus(status: string): ResellerStatus {
+    const validStatuses = Object.values(ResellerStatus) as string[];
+    if (!validStatuses.includes(status)) {
+      throw new Error(
+        `Invalid reseller status: ${status}. Must be one of: ${validStatuses.join(', ')}`,
+      );
+    }
+    return status as ResellerStatus;
+  }
+
+  /**
+   * Validate email format
+   */
+  private isValidEmail(email: string): boolean {
+    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+    return emailRegex.test(email);
+  }
+}
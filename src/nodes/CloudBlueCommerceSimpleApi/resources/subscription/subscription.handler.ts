@@ -5,10 +5,13 @@
  * Implements the following operations:
  * - Get subscription by ID
  * - Get multiple subscriptions with filtering
+ * - List all subscriptions for polling triggers
+ * - Search subscriptions for resource locator lists
  * - Update subscription details
+ * - Update subscription special pricing
  *
  * Features:
- * - Singleton pattern for consistent state management
+ * - One instance per API service for consistent state management
  * - Comprehensive error handling with correlation IDs
  * - Input validation through dedicated validator
  * - Pagination support for list operations
@@ -31,14 +34,17 @@ import type {
 } from './subscription.types';
 import type { CloudBlueApiService } from '../../services/CloudBlueApiService';
 import { debugLog } from '../../utils/debug';
-import { getMany } from '../../utils/pagination';
+import { getAll, getMany } from '../../utils/pagination';
 import { convertRelativeDate, formatDateToYYYYMMDD } from '../../utils/dateConverter';
 import type { IDateFilter, ISubscriptionFilter } from '../../interfaces/filters';
 import { SubscriptionValidator } from './subscription.validator';
-import { PAGINATION } from '../../utils/constants';
+import { PAGINATION, RESOURCE_LOCATOR } from '../../utils/constants';
+import { getResourceLocatorId, searchList } from '../../utils/resourceLocator';
+import { getToolFilters, subscriptionToolFilterSchema } from '../../utils/tool';
+import type { IListSearchResult } from '../../interfaces/api';
 
 export class SubscriptionHandler {
-  private static instance: SubscriptionHandler;
+  private static readonly instances = new WeakMap<CloudBlueApiService, SubscriptionHandler>();
   private readonly apiService: CloudBlueApiService;
   private readonly validator: SubscriptionValidator;
 
@@ -48,22 +54,24 @@ export class SubscriptionHandler {
   }
 
   /**
-   * Gets or creates the singleton instance of SubscriptionHandler
+   * Gets or creates the SubscriptionHandler instance for an API service
    * @param apiService - The CloudBlue API service instance
-   * @returns The singleton instance of SubscriptionHandler
+   * @returns The SubscriptionHandler instance bound to the API service
    */
   public static getInstance(apiService: CloudBlueApiService): SubscriptionHandler {
-    if (!SubscriptionHandler.instance) {
-      SubscriptionHandler.instance = new SubscriptionHandler(apiService);
+    let instance = SubscriptionHandler.instances.get(apiService);
+    if (!instance) {
+      instance = new SubscriptionHandler(apiService);
+      SubscriptionHandler.instances.set(apiService, instance);
     }
-    return SubscriptionHandler.instance;
+    return instance;
   }
 
   /**
    * Executes subscription operations based on the provided operation type
    *
    * @param executeFunctions - n8n execution functions for parameter handling
-   * @param operation - The operation to execute (get, getMany, update)
+   * @param operation - The operation to execute (get, getMany, update, updateSpecialPricing)
    * @param i - The index of the current item being processed
    * @returns Promise resolving to the operation result
    * @throws Error if operation fails or is not supported
@@ -83,6 +91,8 @@ export class SubscriptionHandler {
           return await this.get(executeFunctions, i);
         case 'update':
           return await this.update(executeFunctions, i);
+        case 'updateSpecialPricing':
+          return await this.updateSpecialPricing(executeFunctions, i);
         default:
           throw new Error(`Operation ${operation} not supported`);
       }
@@ -173,6 +183,8 @@ export class SubscriptionHandler {
       }
     }
 
+    Object.assign(params, getToolFilters(executeFunctions, i, subscriptionToolFilterSchema));
+
     debugLog('RESOURCE_EXEC', 'Getting subscriptions with params', params);
     return await getMany<ISubscription>(
       executeFunctions,
@@ -183,6 +195,41 @@ export class SubscriptionHandler {
     );
   }
 
+  /**
+   * Lists every subscription matching the filters, without node parameters.
+   * Used by the trigger node to take snapshots.
+   * @param filters - API list filters such as customerId or status
+   * @returns Promise resolving to all matching subscriptions
+   */
+  public async listAll(filters: ISubscriptionFilter = {}): Promise<ISubscription[]> {
+    debugLog('RESOURCE_EXEC', 'Listing all subscriptions', filters);
+    return await getAll<ISubscription>(this.apiService, '/subscriptions', filters);
+  }
+
+  /**
+   * Searches subscriptions by name or ID for the subscription resource locator list.
+   * The API has no text filter, so each page is filtered locally.
+   * @param filter - Search text typed by the user
+   * @param paginationToken - Offset of the page to fetch
+   * @returns Promise resolving to one page of list entries
+   */
+  public async search(
+    filter?: string,
+    paginationToken?: string | number,
+  ): Promise<IListSearchResult> {
+    debugLog('RESOURCE_EXEC', 'Searching subscriptions', { filter, paginationToken });
+    return await searchList<ISubscription>(
+      this.apiService,
+      '/subscriptions',
+      (subscription) => ({
+        name: `${subscription.name} (${subscription.id}, ${subscription.status})`,
+        value: String(subscription.id),
+      }),
+      filter,
+      paginationToken,
+    );
+  }
+
   /**
    * Get a subscription by ID
    */
@@ -191,7 +238,12 @@ export class SubscriptionHandler {
     i: number,
   ): Promise<ISubscriptionDetailed> {
     this.validator.validateGetOperation(executeFunctions, i);
-    const subscriptionId = executeFunctions.getNodeParameter('subscriptionId', i) as string;
+    const subscriptionId = getResourceLocatorId(
+      executeFunctions,
+      'subscriptionId',
+      i,
+      RESOURCE_LOCATOR.URL_PATTERNS.subscription,
+    );
 
     debugLog('RESOURCE_EXEC', 'Getting subscription by ID', { subscriptionId });
 
@@ -215,7 +267,12 @@ export class SubscriptionHandler {
   ): Promise<ISubscriptionDetailed> {
     this.validator.validateUpdateOperation(executeFunctions, i);
 
-    const subscriptionId = executeFunctions.getNodeParameter('subscriptionId', i) as string;
+    const subscriptionId = getResourceLocatorId(
+      executeFunctions,
+      'subscriptionId',
+      i,
+      RESOURCE_LOCATOR.URL_PATTERNS.subscription,
+    );
     const updateData = executeFunctions.getNodeParameter('data', i) as IDataObject;
 
     debugLog('RESOURCE_EXEC', 'Updating subscription', { subscriptionId, updateData });
@@ -225,7 +282,7 @@ export class SubscriptionHandler {
     // Only allow updates to fields that are updatable according to the API schema
     if (updateData.products) {
       // Validate product updates
-      const products = updateData.products as ISubscriptionProductUpdate[];
+      const products = this.validator.getUpdateProducts(updateData) as ISubscriptionProductUpdate[];
       updateBody.products = products.map((product) => {
         const validatedProduct: ISubscriptionProductUpdate = {};
 
@@ -268,6 +325,36 @@ export class SubscriptionHandler {
     return response.data;
   }
 
+  /**
+   * Update special pricing for subscription products
+   */
+  private async updateSpecialPricing(
+    executeFunctions: IExecuteFunctions,
+    i: number,
+  ): Promise<ISubscriptionDetailed> {
+    const pricing = this.validator.validateUpdateSpecialPricingOperation(executeFunctions, i);
+    const subscriptionId = getResourceLocatorId(
+      executeFunctions,
+      'subscriptionId',
+      i,
+      RESOURCE_LOCATOR.URL_PATTERNS.subscription,
+    );
+
+    debugLog('RESOURCE_EXEC', 'Updating subscription special pricing', { subscriptionId, pricing });
+
+    const response = await this.apiService.request<ISubscriptionDetailed>({
+      method: 'POST',
+      url: `/subscriptions/${subscriptionId}/specialPricing`,
+      data: pricing,
+    });
+
+    if (!response?.data) {
+      throw new Error('Failed to update subscription special pricing: No data received from API');
+    }
+
+    return response.data;
+  }
+
   public async loadOptions(
     loadOptionsFunctions: ILoadOptionsFunctions,
     propertyName: string,
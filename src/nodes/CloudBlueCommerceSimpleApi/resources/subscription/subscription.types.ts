@@ -91,26 +91,23 @@ export interface ISubscriptionDetailed extends ISubscription {
 }
 
 // Update interfaces
+export interface ISubscriptionPriceTier {
+  lowerLimit: string;
+  amount: string;
+}
+
 export interface ISubscriptionProductUpdate {
   mpn?: string;
   id?: string;
   unitPrice?: {
     currency: string;
     amount: string;
-    priceTiers?: Array<{
-      range_start: number;
-      range_end: number;
-      price: number;
-    }>;
+    priceTiers?: ISubscriptionPriceTier[];
   };
   unitCost?: {
     currency: string;
     amount: string;
-    priceTiers?: Array<{
-      range_start: number;
-      range_end: number;
-      price: number;
-    }>;
+    priceTiers?: ISubscriptionPriceTier[];
   };
   unitProviderCost?: {
     currency: string;
@@ -124,6 +121,10 @@ export interface ISubscriptionUpdate extends IDataObject {
   renewalStatus?: boolean;
 }
 
+export interface ISubscriptionUpdateSpecialPricing extends IDataObject {
+  products: ISubscriptionProductUpdate[];
+}
+
 // Response interfaces
 export type ISubscriptionListResponse = IPaginatedResponse<ISubscription>;
 
@@ -6,11 +6,12 @@
  * - Get operation parameters
  * - Get many operation filters
  * - Update operation data validation
+ * - Update special pricing data validation
  * - Status validation
  * - Product data validation
  *
  * Features:
- * - Singleton pattern for consistent validation rules
+ * - One instance per API service for consistent validation rules
  * - Comprehensive input validation
  * - Type checking and data structure validation
  * - Status enumeration validation
@@ -23,11 +24,17 @@ import type { IExecuteFunctions, IDataObject } from 'n8n-workflow';
 import type { CloudBlueApiService } from '../../services/CloudBlueApiService';
 import type { ISubscriptionFilter } from '../../interfaces/filters';
 import { SubscriptionStatus } from './subscription.types';
+import type {
+  ISubscriptionPriceTier,
+  ISubscriptionProductUpdate,
+  ISubscriptionUpdateSpecialPricing,
+} from './subscription.types';
 import { debugLog } from '../../utils/debug';
-import { PAGINATION } from '../../utils/constants';
+import { getResourceLocatorId, getResourceLocatorValue } from '../../utils/resourceLocator';
+import { PAGINATION, RESOURCE_LOCATOR } from '../../utils/constants';
 
 export class SubscriptionValidator {
-  private static instance: SubscriptionValidator;
+  private static readonly instances = new WeakMap<CloudBlueApiService, SubscriptionValidator>();
   private readonly apiService: CloudBlueApiService;
 
   private constructor(apiService: CloudBlueApiService) {
@@ -35,17 +42,24 @@ export class SubscriptionValidator {
   }
 
   public static getInstance(apiService: CloudBlueApiService): SubscriptionValidator {
-    if (!SubscriptionValidator.instance) {
-      SubscriptionValidator.instance = new SubscriptionValidator(apiService);
+    let instance = SubscriptionValidator.instances.get(apiService);
+    if (!instance) {
+      instance = new SubscriptionValidator(apiService);
+      SubscriptionValidator.instances.set(apiService, instance);
     }
-    return SubscriptionValidator.instance;
+    return instance;
   }
 
   /**
    * Validate get operation parameters
    */
   public validateGetOperation(executeFunctions: IExecuteFunctions, i: number): void {
-    const subscriptionId = executeFunctions.getNodeParameter('subscriptionId', i) as string;
+    const subscriptionId = getResourceLocatorId(
+      executeFunctions,
+      'subscriptionId',
+      i,
+      RESOURCE_LOCATOR.URL_PATTERNS.subscription,
+    );
     if (!subscriptionId) {
       throw new Error('Subscription ID is required');
     }
@@ -94,11 +108,33 @@ export class SubscriptionValidator {
     return params;
   }
 
+  /**
+   * Returns the products of the update data, unwrapping the fixed collection entries
+   * and their MPN resource locators
+   */
+  public getUpdateProducts(updateData: IDataObject): IDataObject[] {
+    const products = updateData.products as IDataObject | IDataObject[] | undefined;
+    const entries = Array.isArray(products)
+      ? products
+      : (products?.product as IDataObject[] | undefined) || [];
+
+    return entries.map((product) => {
+      const { mpn, ...rest } = product;
+      const value = getResourceLocatorValue(mpn);
+      return value ? { ...rest, mpn: value } : rest;
+    });
+  }
+
   /**
    * Validate update operation parameters
    */
   public validateUpdateOperation(executeFunctions: IExecuteFunctions, i: number): void {
-    const subscriptionId = executeFunctions.getNodeParameter('subscriptionId', i) as string;
+    const subscriptionId = getResourceLocatorId(
+      executeFunctions,
+      'subscriptionId',
+      i,
+      RESOURCE_LOCATOR.URL_PATTERNS.subscription,
+    );
     const updateData = executeFunctions.getNodeParameter('data', i) as IDataObject;
 
     if (!subscriptionId) {
@@ -111,11 +147,7 @@ export class SubscriptionValidator {
 
     // Validate products if provided
     if (updateData.products) {
-      if (!Array.isArray(updateData.products)) {
-        throw new Error('Products must be an array');
-      }
-
-      for (const product of updateData.products as IDataObject[]) {
+      for (const product of this.getUpdateProducts(updateData)) {
         if (!product.mpn && !product.id) {
           throw new Error('Either MPN or ID must be provided for each product');
         }
@@ -128,6 +160,145 @@ export class SubscriptionValidator {
     });
   }
 
+  /**
+   * Validate update special pricing operation parameters and return the request body
+   */
+  public validateUpdateSpecialPricingOperation(
+    executeFunctions: IExecuteFunctions,
+    i: number,
+  ): ISubscriptionUpdateSpecialPricing {
+    const subscriptionId = getResourceLocatorId(
+      executeFunctions,
+      'subscriptionId',
+      i,
+      RESOURCE_LOCATOR.URL_PATTERNS.subscription,
+    );
+    if (!subscriptionId) {
+      throw new Error('Subscription ID is required');
+    }
+
+    const data = executeFunctions.getNodeParameter('data', i, {}) as IDataObject;
+    const productCollection = ((data.products as IDataObject)?.product as IDataObject) || {};
+    const products = (productCollection.values as IDataObject[]) || [];
+
+    if (products.length === 0) {
+      throw new Error('At least one product is required');
+    }
+
+    const pricing: ISubscriptionUpdateSpecialPricing = {
+      products: products.map((product, index) => this.validatePricingProduct(product, index)),
+    };
+
+    debugLog('RESOURCE_EXEC', 'Update special pricing parameters validated', {
+      subscriptionId,
+      pricing,
+    });
+    return pricing;
+  }
+
+  /**
+   * Validate a single special pricing product entry
+   */
+  private validatePricingProduct(product: IDataObject, index: number): ISubscriptionProductUpdate {
+    if (!product.mpn && !product.id) {
+      throw new Error(`Either MPN or ID must be provided for product at index ${index}`);
+    }
+
+    const result: ISubscriptionProductUpdate = {};
+    if (product.mpn) result.mpn = product.mpn as string;
+    if (product.id) result.id = product.id as string;
+
+    const unitPrice = (product.unitPrice as IDataObject)?.price as IDataObject | undefined;
+    if (unitPrice) {
+      result.unitPrice = {
+        ...this.validateAmount(unitPrice, `Unit price of product at index ${index}`),
+        ...this.validatePriceTiers(unitPrice, `Unit price of product at index ${index}`),
+      };
+    }
+
+    const unitCost = (product.unitCost as IDataObject)?.cost as IDataObject | undefined;
+    if (unitCost) {
+      result.unitCost = {
+        ...this.validateAmount(unitCost, `Unit cost of product at index ${index}`),
+        ...this.validatePriceTiers(unitCost, `Unit cost of product at index ${index}`),
+      };
+    }
+
+    const unitProviderCost = (product.unitProviderCost as IDataObject)?.providerCost as
+      | IDataObject
+      | undefined;
+    if (unitProviderCost) {
+      result.unitProviderCost = this.validateAmount(
+        unitProviderCost,
+        `Unit provider cost of product at index ${index}`,
+      );
+    }
+
+    if (!result.unitPrice && !result.unitCost && !result.unitProviderCost) {
+      throw new Error(`At least one price or cost must be provided for product at index ${index}`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Validate a currency and amount pair
+   */
+  private validateAmount(
+    value: IDataObject,
+    fieldName: string,
+  ): { currency: string; amount: string } {
+    if (!value.currency) {
+      throw new Error(`${fieldName} requires a currency`);
+    }
+    if (!this.isNumeric(value.amount)) {
+      throw new Error(`${fieldName} requires a numeric amount`);
+    }
+    return { currency: value.currency as string, amount: String(value.amount) };
+  }
+
+  /**
+   * Validate price tiers and return them sorted by lower limit
+   */
+  private validatePriceTiers(
+    value: IDataObject,
+    fieldName: string,
+  ): { priceTiers?: ISubscriptionPriceTier[] } {
+    const tiers = ((value.priceTiers as IDataObject)?.tier as IDataObject[]) || [];
+    if (tiers.length === 0) {
+      return {};
+    }
+
+    const priceTiers = tiers.map((tier, index) => {
+      if (!this.isNumeric(tier.lowerLimit) || !this.isNumeric(tier.amount)) {
+        throw new Error(
+          `${fieldName}: tier at index ${index} requires a numeric lower limit and amount`,
+        );
+      }
+      return { lowerLimit: String(tier.lowerLimit), amount: String(tier.amount) };
+    });
+
+    priceTiers.sort((a, b) => Number(a.lowerLimit) - Number(b.lowerLimit));
+    for (let t = 1; t < priceTiers.length; t++) {
+      if (priceTiers[t].lowerLimit === priceTiers[t - 1].lowerLimit) {
+        throw new Error(`${fieldName}: duplicate tier lower limit ${priceTiers[t].lowerLimit}`);
+      }
+    }
+
+    return { priceTiers };
+  }
+
+  /**
+   * Helper function to check that a value is a number or numeric string
+   */
+  private isNumeric(value: unknown): boolean {
+    return (
+      (typeof value === 'number' || typeof value === 'string') &&
+      String(value).trim() !== '' &&
+      !isNaN(Number(value))
+    );
+  }
+
   /**
    * Helper function to validate subscription status
    */
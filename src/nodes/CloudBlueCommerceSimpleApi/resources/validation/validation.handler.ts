@@ -0,0 +1,188 @@
+/**
+ * @file Validation Resource Handler
+ * @description Handles validation resource operations for the CloudBlue Commerce API.
+ *
+ * Implements the following operations:
+ * - Validate product activation parameters before ordering
+ *
+ * Features:
+ * - One instance per API service for consistent state management
+ * - Comprehensive error handling with correlation IDs
+ * - Input validation through dedicated validator
+ * - Per-product and top-level pass/fail flags for workflow gating
+ *
+ * @module CloudBlueCommerceSimpleApi/resources/validation
+ */
+
+import type {
+  IDataObject,
+  IExecuteFunctions,
+  ILoadOptionsFunctions,
+  INodePropertyOptions,
+} from 'n8n-workflow';
+import { ParameterValidationStatus, ValidationOrderType } from './validation.types';
+import type {
+  IParameterValidationError,
+  IParameterValidationResult,
+  IParameterValidationSummary,
+  IResultListParameterValidationResult,
+} from './validation.types';
+import type { CloudBlueApiService } from '../../services/CloudBlueApiService';
+import { debugLog } from '../../utils/debug';
+import { ValidationValidator } from './validation.validator';
+
+export class ValidationHandler {
+  private static readonly instances = new WeakMap<CloudBlueApiService, ValidationHandler>();
+  private readonly apiService: CloudBlueApiService;
+  private readonly validator: ValidationValidator;
+
+  private constructor(apiService: CloudBlueApiService) {
+    this.apiService = apiService;
+    this.validator = ValidationValidator.getInstance();
+  }
+
+  public static getInstance(apiService: CloudBlueApiService): ValidationHandler {
+    let instance = ValidationHandler.instances.get(apiService);
+    if (!instance) {
+      instance = new ValidationHandler(apiService);
+      ValidationHandler.instances.set(apiService, instance);
+    }
+    return instance;
+  }
+
+  /**
+   * Validate product activation parameters
+   */
+  private async validateParameters(
+    executeFunctions: IExecuteFunctions,
+    i: number,
+  ): Promise<IParameterValidationSummary> {
+    const request = this.validator.validateParametersOperation(executeFunctions, i);
+
+    debugLog('RESOURCE_EXEC', 'Validating activation parameters', { request });
+
+    const response = await this.apiService.request<IResultListParameterValidationResult>({
+      method: 'POST',
+      url: '/validation/parameters',
+      data: request,
+      readOnly: true,
+    });
+
+    if (!response?.data) {
+      throw new Error(`Failed to validate parameters: No data received from API`);
+    }
+
+    const results = response.data.data || [];
+    return this.summarize(request.customerId, request.type || ValidationOrderType.SALES, results);
+  }
+
+  /**
+   * Builds the node output with per-product and top-level pass/fail flags
+   */
+  private summarize(
+    customerId: string,
+    type: ValidationOrderType,
+    results: IParameterValidationResult[],
+  ): IParameterValidationSummary {
+    const errors: IParameterValidationError[] = [];
+
+    const products = results.map((result) => {
+      const failed = (result.parameters || []).filter(
+        (parameter) => parameter.result === ParameterValidationStatus.ERROR,
+      );
+      failed.forEach((parameter) =>
+        errors.push({
+          mpn: result.mpn,
+          name: parameter.name,
+          message: parameter.message,
+          valueError: parameter.valueError,
+        }),
+      );
+      return { ...result, valid: failed.length === 0 };
+    });
+
+    debugLog('RESOURCE_EXEC', 'Activation parameters validated', {
+      customerId,
+      errorCount: errors.length,
+    });
+
+    return {
+      valid: errors.length === 0,
+      customerId,
+      type,
+      products,
+      errors,
+    };
+  }
+
+  /**
+   * Execute the specified operation
+   */
+  public async execute(
+    executeFunctions: IExecuteFunctions,
+    operation: string,
+    i: number,
+  ): Promise<IDataObject | IDataObject[]> {
+    debugLog('RESOURCE_EXEC', 'Executing validation operation', { operation, i });
+
+    try {
+      switch (operation) {
+        case 'validateParameters':
+          return await this.validateParameters(executeFunctions, i);
+        default:
+          throw new Error(`Operation ${operation} is not supported`);
+      }
+    } catch (error: any) {
+      debugLog('RESOURCE_EXEC', 'Error in validation operation', { operation, error });
+
+      // Extract correlation ID if available
+      const correlationId = error.error?.correlationId;
+      const errorMessage = error.error?.message || error.message;
+      const errorPrefix = correlationId ? `[Correlation ID: ${correlationId}] ` : '';
+
+      // Handle specific error cases with standardized messages
+      if (
+        error.httpCode === 404 ||
+        (error.httpCode === 400 && errorMessage.includes('No entity has been found'))
+      ) {
+        throw new Error(`${errorPrefix}Customer or product not found: ${errorMessage}`);
+      }
+      if (error.httpCode === 400) {
+        throw new Error(`${errorPrefix}Invalid request: ${errorMessage}`);
+      }
+      if (error.httpCode === 401) {
+        throw new Error(`${errorPrefix}Authentication failed: ${errorMessage}`);
+      }
+      if (error.httpCode === 403) {
+        throw new Error(`${errorPrefix}Access denied: ${errorMessage}`);
+      }
+      if (error.httpCode === 409) {
+        throw new Error(`${errorPrefix}Conflict: ${errorMessage}`);
+      }
+      if (error.httpCode === 429) {
+        throw new Error(`${errorPrefix}Rate limit exceeded: ${errorMessage}`);
+      }
+      if (error.httpCode === 500) {
+        throw new Error(`${errorPrefix}Internal server error: ${errorMessage}`);
+      }
+      if (error.httpCode === 503) {
+        throw new Error(`${errorPrefix}Service unavailable: ${errorMessage}`);
+      }
+
+      // For any other error, include as much context as possible
+      throw new Error(`${errorPrefix}${errorMessage}`);
+    }
+  }
+
+  /**
+   * Load options for dynamic fields
+   */
+  public async loadOptions(
+    loadOptionsFunctions: ILoadOptionsFunctions,
+    propertyName: string,
+    currentParameters: Record<string, unknown>,
+  ): Promise<INodePropertyOptions[]> {
+    // Currently, there are no dynamic options to load for the validation resource
+    return [];
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * @file Validation Type Definitions
+ * @description Type definitions for the Validation resource.
+ *
+ * Defines:
+ * - Parameter validation result status and order type enums
+ * - Activation parameter request structures
+ * - Per-parameter and per-product validation result structures
+ * - Aggregated validation summary returned by the node
+ *
+ * @module CloudBlueCommerceSimpleApi/resources/validation/types
+ */
+
+import type { IDataObject } from 'n8n-workflow';
+import type { IDuration, IParameterValue } from '../order/order.types';
+
+export enum ParameterValidationStatus {
+  SUCCESS = 'success',
+  ERROR = 'error',
+}
+
+export enum ValidationOrderType {
+  SALES = 'sales',
+  CHANGE = 'change',
+  RENEWAL = 'renewal',
+  CANCELLATION = 'cancellation',
+  MIGRATION = 'migration',
+  UNKNOWN = 'unknown',
+}
+
+export interface IParameterChoice {
+  label?: string;
+  value?: string;
+  default?: boolean;
+}
+
+export interface IValidatedParameter {
+  name?: string;
+  result?: ParameterValidationStatus;
+  message?: string;
+  value?: string;
+  valueError?: string;
+  valueChoices?: IParameterChoice[];
+  phase?: string;
+  reconciliation?: boolean;
+  type?: string;
+  structured_value?: IDataObject;
+}
+
+export interface IProductWithParameters {
+  id?: string;
+  mpn?: string;
+  vendor?: string;
+  billingPeriod?: IDuration;
+  subscriptionPeriod?: IDuration;
+  quantity?: number;
+  draftRequestId?: string;
+  parameters: IParameterValue[];
+}
+
+export interface IParameterValidationRequest extends IDataObject {
+  customerId: string;
+  type?: ValidationOrderType;
+  products: IProductWithParameters[];
+}
+
+export interface IParameterValidationResult {
+  id?: string;
+  mpn?: string;
+  vendor?: string;
+  billingPeriod?: IDuration;
+  subscriptionPeriod?: IDuration;
+  draftRequestId?: string;
+  parameters?: IValidatedParameter[];
+}
+
+export interface IResultListParameterValidationResult {
+  data: IParameterValidationResult[];
+  pagination?: {
+    total: number;
+    limit: number;
+    offset: number;
+  };
+}
+
+/**
+ * Per-product result with its own pass/fail flag
+ */
+export interface IProductValidationSummary extends IParameterValidationResult {
+  valid: boolean;
+}
+
+/**
+ * Flattened description of a single failed parameter
+ */
+export interface IParameterValidationError {
+  mpn?: string;
+  name?: string;
+  message?: string;
+  valueError?: string;
+}
+
+/**
+ * Output of the Validate Activation Parameters operation
+ */
+export interface IParameterValidationSummary extends IDataObject {
+  valid: boolean;
+  customerId: string;
+  type: ValidationOrderType;
+  products: IProductValidationSummary[];
+  errors: IParameterValidationError[];
+}
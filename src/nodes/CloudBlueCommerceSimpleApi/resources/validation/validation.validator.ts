@@ -0,0 +1,121 @@
+/**
+ * @file Validation Resource Validator
+ * @description Handles validation for validation resource operations in the CloudBlue Commerce API.
+ *
+ * Implements validation for:
+ * - Validate activation parameters operation inputs
+ * - Order type validation
+ * - Product and parameter structure validation
+ *
+ * Features:
+ * - Singleton pattern for consistent validation rules
+ * - Builds the API request body from node parameters
+ *
+ * @module CloudBlueCommerceSimpleApi/resources/validation
+ */
+
+import type { IExecuteFunctions, IDataObject } from 'n8n-workflow';
+import { debugLog } from '../../utils/debug';
+import type { IParameterValue } from '../order/order.types';
+import { ValidationOrderType } from './validation.types';
+import type { IParameterValidationRequest, IProductWithParameters } from './validation.types';
+
+export class ValidationValidator {
+  private static instance: ValidationValidator;
+
+  private constructor() {}
+
+  public static getInstance(): ValidationValidator {
+    if (!ValidationValidator.instance) {
+      ValidationValidator.instance = new ValidationValidator();
+    }
+    return ValidationValidator.instance;
+  }
+
+  /**
+   * Validates validate parameters operation inputs and returns the request body
+   */
+  public validateParametersOperation(
+    executeFunctions: IExecuteFunctions,
+    i: number,
+  ): IParameterValidationRequest {
+    debugLog('RESOURCE_EXEC', 'Validating activation parameters request');
+
+    const customerId = executeFunctions.getNodeParameter('customerId', i) as string;
+    if (!customerId) {
+      throw new Error('Customer ID is required');
+    }
+
+    const type = executeFunctions.getNodeParameter(
+      'orderType',
+      i,
+      ValidationOrderType.SALES,
+    ) as ValidationOrderType;
+    const validTypes = Object.values(ValidationOrderType) as string[];
+    if (!validTypes.includes(type)) {
+      throw new Error(`Invalid order type: ${type}. Must be one of: ${validTypes.join(', ')}`);
+    }
+
+    const productsInput = executeFunctions.getNodeParameter('products', i, {}) as IDataObject;
+    const products = this.validateProducts((productsInput.product as IDataObject[]) || []);
+
+    const request: IParameterValidationRequest = { customerId, type, products };
+
+    debugLog('RESOURCE_EXEC', 'Activation parameters request validated', { request });
+    return request;
+  }
+
+  /**
+   * Validates product entries and maps them to the API structure
+   */
+  private validateProducts(products: IDataObject[]): IProductWithParameters[] {
+    if (products.length === 0) {
+      throw new Error('At least one product is required');
+    }
+
+    return products.map((product, index) => {
+      if (!product.mpn) {
+        throw new Error(`Product at index ${index} must have an MPN`);
+      }
+
+      const result: IProductWithParameters = {
+        mpn: product.mpn as string,
+        parameters: this.validateParameters(product.parameters as IDataObject, index),
+      };
+
+      if (product.quantity !== undefined) {
+        if (typeof product.quantity !== 'number' || product.quantity <= 0) {
+          throw new Error(`Product at index ${index} must have a positive quantity`);
+        }
+        result.quantity = product.quantity;
+      }
+      if (product.vendor) {
+        result.vendor = product.vendor as string;
+      }
+
+      return result;
+    });
+  }
+
+  /**
+   * Validates the activation parameters of a single product
+   */
+  private validateParameters(
+    parametersInput: IDataObject | undefined,
+    productIndex: number,
+  ): IParameterValue[] {
+    const parameters = (parametersInput?.parameter as IDataObject[]) || [];
+
+    return parameters.map((parameter, index) => {
+      if (!parameter.name) {
+        throw new Error(
+          `Parameter at index ${index} of product at index ${productIndex} must have a name`,
+        );
+      }
+      return {
+        name: parameter.name as string,
+        value: parameter.value ?? '',
+      };
+    });
+  }
+}
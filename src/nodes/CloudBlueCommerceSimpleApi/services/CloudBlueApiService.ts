@@ -2,19 +2,26 @@
  * @file CloudBlue API Service
  * @description Core service for interacting with the CloudBlue Commerce API.
  * Implements:
- * - Authentication and token management
- * - Request handling with automatic retries
+ * - Authentication and token management (refresh token grant, re-authenticates once on 401)
+ * - Request handling with automatic retries (exponential backoff, Retry-After)
+ * - Client-side rate limiting shared by all handlers using a credential
+ * - Dry runs returning the mutating requests that would have been sent
  * - Error handling and response transformation
  * - URL construction and parameter handling
  *
- * Uses singleton pattern to maintain a single authenticated instance.
+ * Keeps one authenticated instance per credential set, keyed by a hash of the
+ * credential content and evicted when a stored credential changes.
  *
  * @module CloudBlueCommerceSimpleApi/services/CloudBlueApiService
  */
 
+import { createHash } from 'crypto';
 import type { IDataObject } from 'n8n-workflow';
 import { debugLog } from '../utils/debug';
 import { CloudBlueError } from '../utils/errorHandler';
+import { RATE_LIMIT, RETRY, SERVICE_CACHE } from '../utils/constants';
+import { sleep } from '../utils/sleep';
+import { RateLimiter } from './RateLimiter';
 
 interface ICloudBlueErrorResponse {
   message?: string;
@@ -29,16 +36,63 @@ export interface ICloudBlueApiResponse<T = unknown> {
   headers: Record<string, string>;
 }
 
+export interface ICloudBlueDownloadResponse {
+  data: Buffer;
+  contentType?: string;
+}
+
+export interface ICloudBlueCredentials {
+  apiUrl: string;
+  authUrl: string;
+  username: string;
+  password: string;
+  clientId: string;
+  clientSecret: string;
+  subscriptionKey: string;
+  requestsPerSecond?: number;
+  burst?: number;
+}
+
+export interface IRetryOptions {
+  maxAttempts: number;
+  jitter: boolean;
+  retryNonIdempotent: boolean;
+}
+
+/**
+ * Token and rate limit state shared by a cached instance and its per-execution views
+ */
+interface ICloudBlueSession {
+  accessToken: string | null;
+  tokenExpiry: number | null;
+  refreshToken: string | null;
+  pendingAuth: Promise<string> | null;
+  rateLimiter: RateLimiter | null;
+}
+
 export interface IRequestOptions {
   method: 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
   url: string;
   data?: IDataObject;
   params?: IDataObject;
   headers?: Record<string, string>;
+  // Marks POST requests that change nothing (e.g. estimates), so dry runs still send them
+  readOnly?: boolean;
+}
+
+/**
+ * Returned in place of the response when a dry run skips a mutating request
+ */
+export interface IDryRunPreview extends IDataObject {
+  dryRun: true;
+  method: IRequestOptions['method'];
+  url: string;
+  payload: IDataObject | null;
 }
 
 export class CloudBlueApiService {
-  private static instance: CloudBlueApiService;
+  private static readonly instances = new Map<string, CloudBlueApiService>();
+  private static readonly credentialKeys = new Map<string, string>();
   private readonly baseUrl: string;
   private readonly authUrl: string;
   private readonly username: string;
@@ -46,59 +100,179 @@ export class CloudBlueApiService {
   private readonly clientId: string;
   private readonly clientSecret: string;
   private readonly subscriptionKey: string;
-  private accessToken: string | null = null;
-  private tokenExpiry: number | null = null;
+  private readonly credentials: ICloudBlueCredentials;
+  private readonly session: ICloudBlueSession;
+  private readonly retryOptions: IRetryOptions;
+  private readonly dryRun: boolean;
 
   private constructor(
-    baseUrl: string,
-    authUrl: string,
-    username: string,
-    password: string,
-    clientId: string,
-    clientSecret: string,
-    subscriptionKey: string,
+    credentials: ICloudBlueCredentials,
+    session: ICloudBlueSession = CloudBlueApiService.createSession(credentials),
+    retryOptions: IRetryOptions = {
+      maxAttempts: RETRY.DEFAULT_MAX_ATTEMPTS,
+      jitter: true,
+      retryNonIdempotent: false,
+    },
+    dryRun = false,
   ) {
-    this.baseUrl = baseUrl;
-    this.authUrl = authUrl;
-    this.username = username;
-    this.password = password;
-    this.clientId = clientId;
-    this.clientSecret = clientSecret;
-    this.subscriptionKey = subscriptionKey;
+    this.credentials = credentials;
+    this.session = session;
+    this.retryOptions = retryOptions;
+    this.dryRun = dryRun;
+    this.baseUrl = credentials.apiUrl;
+    this.authUrl = credentials.authUrl;
+    this.username = credentials.username;
+    this.password = credentials.password;
+    this.clientId = credentials.clientId;
+    this.clientSecret = credentials.clientSecret;
+    this.subscriptionKey = credentials.subscriptionKey;
   }
 
+  /**
+   * Returns the service instance for a credential set, creating it if needed.
+   * When the stored credential identified by `credentialId` has changed, the
+   * instance built from its previous content is evicted.
+   */
   public static getInstance(
-    baseUrl: string,
-    authUrl: string,
-    username: string,
-    password: string,
-    clientId: string,
-    clientSecret: string,
-    subscriptionKey: string,
+    credentials: ICloudBlueCredentials,
+    credentialId?: string | null,
   ): CloudBlueApiService {
-    if (!CloudBlueApiService.instance) {
-      CloudBlueApiService.instance = new CloudBlueApiService(
-        baseUrl,
-        authUrl,
-        username,
-        password,
-        clientId,
-        clientSecret,
-        subscriptionKey,
-      );
+    const key = CloudBlueApiService.getCacheKey(credentials);
+
+    if (credentialId) {
+      const previousKey = CloudBlueApiService.credentialKeys.get(credentialId);
+      CloudBlueApiService.credentialKeys.set(credentialId, key);
+      if (previousKey && previousKey !== key) {
+        CloudBlueApiService.evict(previousKey);
+      }
+    }
+
+    let instance = CloudBlueApiService.instances.get(key);
+    if (instance) {
+      // Re-insert to keep the map ordered by most recent use
+      CloudBlueApiService.instances.delete(key);
+    } else {
+      debugLog('CACHE_OPS', 'Creating API service instance', { apiUrl: credentials.apiUrl });
+      instance = new CloudBlueApiService(credentials);
+    }
+    CloudBlueApiService.instances.set(key, instance);
+
+    if (CloudBlueApiService.instances.size > SERVICE_CACHE.MAX_INSTANCES) {
+      const oldestKey = CloudBlueApiService.instances.keys().next().value as string;
+      CloudBlueApiService.instances.delete(oldestKey);
+      debugLog('CACHE_OPS', 'Evicted least recently used API service instance');
+    }
+
+    return instance;
+  }
+
+  private static createSession(credentials: ICloudBlueCredentials): ICloudBlueSession {
+    const { requestsPerSecond, burst } = credentials;
+    return {
+      accessToken: null,
+      tokenExpiry: null,
+      refreshToken: null,
+      pendingAuth: null,
+      rateLimiter: requestsPerSecond
+        ? new RateLimiter(requestsPerSecond, burst || RATE_LIMIT.DEFAULT_BURST)
+        : null,
+    };
+  }
+
+  /**
+   * Returns a view of this instance that shares its token but uses the given
+   * retry settings, so node-level options never leak between executions
+   */
+  public withRetryOptions(retryOptions: Partial<IRetryOptions>): CloudBlueApiService {
+    return new CloudBlueApiService(
+      this.credentials,
+      this.session,
+      {
+        ...this.retryOptions,
+        ...retryOptions,
+      },
+      this.dryRun,
+    );
+  }
+
+  /**
+   * Returns a view of this instance that, when `dryRun` is set, returns a preview
+   * of mutating requests instead of sending them
+   */
+  public withDryRun(dryRun: boolean): CloudBlueApiService {
+    return new CloudBlueApiService(this.credentials, this.session, this.retryOptions, dryRun);
+  }
+
+  public get isDryRun(): boolean {
+    return this.dryRun;
+  }
+
+  /**
+   * Removes a cached instance unless another stored credential still resolves to it
+   */
+  private static evict(key: string): void {
+    const inUse = Array.from(CloudBlueApiService.credentialKeys.values()).includes(key);
+    if (!inUse && CloudBlueApiService.instances.delete(key)) {
+      debugLog('CACHE_OPS', 'Evicted API service instance for changed credentials');
     }
-    return CloudBlueApiService.instance;
   }
 
+  /**
+   * Hashes the credential content so secrets are never used as map keys
+   */
+  private static getCacheKey(credentials: ICloudBlueCredentials): string {
+    return createHash('sha256')
+      .update(
+        JSON.stringify([
+          credentials.apiUrl,
+          credentials.authUrl,
+          credentials.username,
+          credentials.password,
+          credentials.clientId,
+          credentials.clientSecret,
+          credentials.subscriptionKey,
+          credentials.requestsPerSecond,
+          credentials.burst,
+        ]),
+      )
+      .digest('hex');
+  }
+
+  /**
+   * Fetches a new token, sharing a single in-flight request between concurrent callers
+   */
   private async authenticate(): Promise<string> {
-    debugLog('AUTH_FLOW', 'Authenticating with OAuth2', {
-      authUrl: this.authUrl,
-      username: this.username,
-      clientId: this.clientId,
-    });
+    if (!this.session.pendingAuth) {
+      this.session.pendingAuth = this.requestToken().finally(() => {
+        this.session.pendingAuth = null;
+      });
+    }
+    return this.session.pendingAuth;
+  }
 
-    const authUrl = `${this.authUrl}/token`;
-    const body = new URLSearchParams({
+  /**
+   * Obtains a token with the refresh token when one is held, falling back to the
+   * password grant when there is none or it has been rejected
+   */
+  private async requestToken(): Promise<string> {
+    const { refreshToken } = this.session;
+    if (refreshToken) {
+      try {
+        return await this.exchangeToken({
+          grant_type: 'refresh_token',
+          refresh_token: refreshToken,
+          client_id: this.clientId,
+          client_secret: this.clientSecret,
+        });
+      } catch (error) {
+        debugLog('AUTH_FLOW', 'Refresh token rejected, falling back to password grant', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        this.session.refreshToken = null;
+      }
+    }
+
+    return this.exchangeToken({
       grant_type: 'password',
       username: this.username,
       password: this.password,
@@ -106,6 +280,18 @@ export class CloudBlueApiService {
       client_secret: this.clientSecret,
       scope: 'openid',
     });
+  }
+
+  private async exchangeToken(params: Record<string, string>): Promise<string> {
+    debugLog('AUTH_FLOW', 'Authenticating with OAuth2', {
+      authUrl: this.authUrl,
+      grantType: params.grant_type,
+      username: this.username,
+      clientId: this.clientId,
+    });
+
+    const authUrl = `${this.authUrl}/token`;
+    const body = new URLSearchParams(params);
 
     try {
       const response = await fetch(authUrl, {
@@ -131,18 +317,22 @@ export class CloudBlueApiService {
       interface IAuthResponse {
         access_token: string;
         expires_in: number;
+        refresh_token?: string;
       }
 
       const data = (await response.json()) as IAuthResponse;
-      this.accessToken = data.access_token;
+      this.session.accessToken = data.access_token;
       // Set token expiry to 5 minutes before actual expiry
-      this.tokenExpiry = Date.now() + (data.expires_in - 300) * 1000;
+      this.session.tokenExpiry = Date.now() + (data.expires_in - 300) * 1000;
+      // Keep the previous refresh token if the server does not rotate it
+      this.session.refreshToken = data.refresh_token || this.session.refreshToken;
 
       debugLog('AUTH_FLOW', 'Authentication successful', {
+        grantType: params.grant_type,
         expiresIn: data.expires_in,
       });
 
-      return this.accessToken;
+      return data.access_token;
     } catch (error) {
       debugLog('AUTH_FLOW', 'Authentication error', {
         error: error instanceof Error ? error.message : 'Unknown error',
@@ -153,16 +343,138 @@ export class CloudBlueApiService {
   }
 
   private async getValidToken(): Promise<string> {
-    if (!this.accessToken || !this.tokenExpiry || Date.now() >= this.tokenExpiry) {
+    const { accessToken, tokenExpiry } = this.session;
+    if (!accessToken || !tokenExpiry || Date.now() >= tokenExpiry) {
       return this.authenticate();
     }
-    return this.accessToken;
+    return accessToken;
   }
 
+  /**
+   * Sends a request, retrying rate limited, unavailable and network-failed calls.
+   * POST requests are not idempotent and are only retried when explicitly enabled.
+   */
   public async request<T = unknown>(options: IRequestOptions): Promise<ICloudBlueApiResponse<T>> {
+    if (this.dryRun && options.method !== 'GET' && !options.readOnly) {
+      return this.previewRequest<T>(options);
+    }
+
+    // Built before the retry loop: an invalid URL throws a TypeError, which must not be
+    // mistaken for a network failure and retried
+    const fullUrl = this.buildUrl(options.url, options.params);
+    const canRetry = options.method !== 'POST' || this.retryOptions.retryNonIdempotent;
+    const maxAttempts = canRetry ? Math.max(1, this.retryOptions.maxAttempts) : 1;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.sendAuthenticatedRequest<T>(options, fullUrl);
+      } catch (error) {
+        const delay = this.getRetryDelay(error, attempt);
+        if (attempt >= maxAttempts || delay === null) {
+          throw error;
+        }
+
+        debugLog('API_REQUEST', 'Retrying API request', {
+          method: options.method,
+          url: options.url,
+          attempt,
+          maxAttempts,
+          delay,
+        });
+        await sleep(delay);
+      }
+    }
+  }
+
+  /**
+   * Returns the delay before the next attempt, or null when the error is not retryable
+   */
+  private getRetryDelay(error: unknown, attempt: number): number | null {
+    if (error instanceof CloudBlueError) {
+      if (!error.httpCode || !RETRY.RETRYABLE_STATUS_CODES.includes(error.httpCode)) {
+        return null;
+      }
+
+      const retryAfter = error.data?.retryAfter as number | undefined;
+      if (retryAfter !== undefined) {
+        const retryAfterMs = retryAfter * 1000;
+        // Waiting longer than the server asks for is pointless, waiting much longer is unsafe
+        return retryAfterMs <= RETRY.MAX_RETRY_AFTER_MS ? retryAfterMs : null;
+      }
+    } else if (!this.isNetworkError(error)) {
+      return null;
+    }
+
+    const backoff = Math.min(RETRY.BASE_DELAY_MS * 2 ** (attempt - 1), RETRY.MAX_DELAY_MS);
+    return this.retryOptions.jitter ? backoff / 2 + Math.random() * (backoff / 2) : backoff;
+  }
+
+  /**
+   * fetch rejects network failures with a TypeError whose cause is the socket error.
+   * An unparsable URL also gives a TypeError, but caused by another TypeError; like
+   * TypeErrors without a cause (bugs), it is not worth retrying.
+   */
+  private isNetworkError(error: unknown): boolean {
+    if (typeof error !== 'object' || error === null || (error as Error).name !== 'TypeError') {
+      return false;
+    }
+    const cause = (error as { cause?: { name?: string } }).cause;
+    return cause !== undefined && cause.name !== 'TypeError';
+  }
+
+  /**
+   * Parses a Retry-After header given either in seconds or as an HTTP date
+   */
+  private parseRetryAfter(header: string | null): number | undefined {
+    if (!header) {
+      return undefined;
+    }
+    const seconds = Number(header);
+    if (!isNaN(seconds)) {
+      return Math.max(0, seconds);
+    }
+    const date = Date.parse(header);
+    return isNaN(date) ? undefined : Math.max(0, (date - Date.now()) / 1000);
+  }
+
+  /**
+   * Sends a request, re-authenticating and replaying it once if the token is rejected
+   */
+  private async sendAuthenticatedRequest<T = unknown>(
+    options: IRequestOptions,
+    fullUrl: string,
+  ): Promise<ICloudBlueApiResponse<T>> {
     const token = await this.getValidToken();
-    const { method, url, data, params, headers = {} } = options;
-    const fullUrl = this.buildUrl(url, params);
+    try {
+      return await this.sendRequest<T>(options, fullUrl, token);
+    } catch (error) {
+      if (!(error instanceof CloudBlueError) || error.httpCode !== 401) {
+        throw error;
+      }
+
+      debugLog('AUTH_FLOW', 'Token rejected, re-authenticating', { url: options.url });
+      return await this.sendRequest<T>(options, fullUrl, await this.renewToken(token));
+    }
+  }
+
+  /**
+   * Replaces a rejected token unless a concurrent request has already done so
+   */
+  private async renewToken(rejectedToken: string): Promise<string> {
+    if (this.session.accessToken !== rejectedToken) {
+      return this.getValidToken();
+    }
+    this.session.accessToken = null;
+    this.session.tokenExpiry = null;
+    return this.authenticate();
+  }
+
+  private async sendRequest<T = unknown>(
+    options: IRequestOptions,
+    fullUrl: string,
+    token: string,
+  ): Promise<ICloudBlueApiResponse<T>> {
+    const { method, data, params, headers = {} } = options;
 
     debugLog('API_REQUEST', 'Making API request', {
       method,
@@ -176,6 +488,8 @@ export class CloudBlueApiService {
       params,
     });
 
+    await this.session.rateLimiter?.acquire();
+
     try {
       const response = await fetch(fullUrl, {
         method,
@@ -196,18 +510,22 @@ export class CloudBlueApiService {
           error: errorData,
         });
 
+        const retryAfter = this.parseRetryAfter(response.headers.get('retry-after'));
         throw new CloudBlueError(
           errorData.message || response.statusText,
           errorData.code || 'API_ERROR',
           response.status,
-          errorData.details || {},
+          retryAfter !== undefined
+            ? { ...(errorData.details || {}), retryAfter }
+            : errorData.details || {},
         );
       }
 
       const responseText = await response.text();
       debugLog('API_RESPONSE', 'Pre-parsed response', responseText);
 
-      const responseData = JSON.parse(responseText);
+      // Some endpoints (e.g. DELETE) answer with an empty body
+      const responseData = responseText ? JSON.parse(responseText) : undefined;
       const apiResponse = {
         data: responseData as T,
         status: response.status,
@@ -226,10 +544,29 @@ export class CloudBlueApiService {
     }
   }
 
+  /**
+   * Describes a mutating request instead of sending it
+   */
+  private previewRequest<T>(options: IRequestOptions): ICloudBlueApiResponse<T> {
+    const preview: IDryRunPreview = {
+      dryRun: true,
+      method: options.method,
+      url: this.buildUrl(options.url, options.params),
+      payload: options.data ?? null,
+    };
+
+    debugLog('API_REQUEST', 'Dry run, request not sent', preview);
+    return { data: preview as unknown as T, status: 0, headers: {} };
+  }
+
   private buildUrl(path: string, params?: IDataObject): string {
     const baseUrl = this.baseUrl.endsWith('/') ? this.baseUrl : `${this.baseUrl}/`;
     const cleanPath = path.startsWith('/') ? path.slice(1) : path;
     const url = new URL(cleanPath, baseUrl);
+    // Paths such as "/\/evil.com" resolve to another host; the token must never be sent there
+    if (url.origin !== new URL(baseUrl).origin) {
+      throw new CloudBlueError(`Path resolves outside the API URL: ${path}`, 'INVALID_PATH');
+    }
 
     if (params) {
       for (const [key, value] of Object.entries(params)) {
@@ -289,4 +626,43 @@ export class CloudBlueApiService {
       params,
     });
   }
+
+  /**
+   * Downloads a file from a pre-signed URL (e.g. a report downloadUrl).
+   * The URL carries its own authorisation, so no bearer token or subscription key is sent.
+   */
+  public async download(url: string): Promise<ICloudBlueDownloadResponse> {
+    const safeUrl = url.split('?')[0];
+    debugLog('API_REQUEST', 'Downloading file', { url: safeUrl });
+
+    try {
+      const response = await fetch(url, { method: 'GET' });
+
+      if (!response.ok) {
+        debugLog('API_ERROR', 'File download failed', {
+          status: response.status,
+          statusText: response.statusText,
+        });
+        throw new CloudBlueError(
+          `File download failed: ${response.statusText}`,
+          'DOWNLOAD_ERROR',
+          response.status,
+        );
+      }
+
+      const data = Buffer.from(await response.arrayBuffer());
+      debugLog('API_RESPONSE', 'File downloaded', { url: safeUrl, size: data.length });
+
+      return {
+        data,
+        contentType: response.headers.get('content-type') ?? undefined,
+      };
+    } catch (error) {
+      debugLog('API_ERROR', 'File download error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+      throw error;
+    }
+  }
 }
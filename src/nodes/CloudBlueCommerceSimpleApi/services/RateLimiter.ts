@@ -0,0 +1,52 @@
+/**
+ * @file Rate Limiter
+ * @description Token bucket limiter that keeps API calls under the gateway quota.
+ * Implements:
+ * - Sustained rate in requests per second
+ * - Burst capacity for short spikes
+ * - First-come, first-served ordering of waiting requests
+ *
+ * @module CloudBlueCommerceSimpleApi/services/RateLimiter
+ */
+
+import { sleep } from '../utils/sleep';
+
+export class RateLimiter {
+  private readonly requestsPerSecond: number;
+  private readonly burst: number;
+  private tokens: number;
+  private lastRefill: number;
+  private queue: Promise<void> = Promise.resolve();
+
+  public constructor(requestsPerSecond: number, burst: number) {
+    this.requestsPerSecond = requestsPerSecond;
+    this.burst = Math.max(1, burst);
+    this.tokens = this.burst;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * Resolves once a request may be sent
+   */
+  public acquire(): Promise<void> {
+    const turn = this.queue.then(async () => this.take());
+    this.queue = turn;
+    return turn;
+  }
+
+  private async take(): Promise<void> {
+    this.refill();
+    if (this.tokens < 1) {
+      await sleep(((1 - this.tokens) / this.requestsPerSecond) * 1000);
+      this.refill();
+    }
+    this.tokens -= 1;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsedSeconds = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.burst, this.tokens + elapsedSeconds * this.requestsPerSecond);
+    this.lastRefill = now;
+  }
+}
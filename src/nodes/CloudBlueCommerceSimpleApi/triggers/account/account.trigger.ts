@@ -0,0 +1,139 @@
+/**
+ * @file Account Trigger
+ * @description Polls the customer and reseller lists for the CloudBlue Commerce SimpleAPI trigger node.
+ *
+ * Implements the following events:
+ * - Customer created or updated
+ * - Reseller created or updated
+ *
+ * Features:
+ * - One instance per API service for consistent state management
+ * - Seen IDs and a content hash per record persisted in workflow static data
+ * - First-run choice between emitting nothing and emitting every existing record
+ *
+ * @module CloudBlueCommerceSimpleApi/triggers/account
+ */
+
+import { createHash } from 'crypto';
+import type { IDataObject, IPollFunctions } from 'n8n-workflow';
+import type { CloudBlueApiService } from '../../services/CloudBlueApiService';
+import { CustomerHandler } from '../../resources/customer/customer.handler';
+import { ResellerHandler } from '../../resources/reseller/reseller.handler';
+import { AccountChange, AccountTriggerEvent, FirstRunBehaviour } from './account.trigger.types';
+import type { IAccountChange, IAccountTriggerState } from './account.trigger.types';
+import { debugLog } from '../../utils/debug';
+
+export class AccountTrigger {
+  private static readonly instances = new WeakMap<CloudBlueApiService, AccountTrigger>();
+  private readonly apiService: CloudBlueApiService;
+
+  private constructor(apiService: CloudBlueApiService) {
+    this.apiService = apiService;
+  }
+
+  public static getInstance(apiService: CloudBlueApiService): AccountTrigger {
+    let instance = AccountTrigger.instances.get(apiService);
+    if (!instance) {
+      instance = new AccountTrigger(apiService);
+      AccountTrigger.instances.set(apiService, instance);
+    }
+    return instance;
+  }
+
+  /**
+   * Returns the records created or modified since the previous poll and stores their hashes
+   */
+  public async poll(
+    pollFunctions: IPollFunctions,
+    event: AccountTriggerEvent,
+    state: IAccountTriggerState,
+  ): Promise<IDataObject[]> {
+    const isManual = pollFunctions.getMode() === 'manual';
+    const changes = pollFunctions.getNodeParameter('changes', [
+      AccountChange.CREATED,
+      AccountChange.UPDATED,
+    ]) as AccountChange[];
+    const firstRun = pollFunctions.getNodeParameter(
+      'firstRun',
+      FirstRunBehaviour.EMIT_NONE,
+    ) as FirstRunBehaviour;
+
+    const records = await this.listRecords(event);
+    // Hashes recorded for the other account type must not be diffed against these records
+    const isFirstPoll = !state.recordHashes || state.event !== event;
+    const previous = isFirstPoll ? {} : state.recordHashes || {};
+    const recordHashes: Record<string, string> = {};
+    const results: IAccountChange[] = [];
+
+    for (const record of records) {
+      const id = record.id as string | undefined;
+      if (!id) {
+        continue;
+      }
+
+      const hash = this.hashRecord(record);
+      recordHashes[id] = hash;
+
+      const change = !(id in previous)
+        ? AccountChange.CREATED
+        : previous[id] !== hash
+        ? AccountChange.UPDATED
+        : null;
+      if (change && changes.includes(change)) {
+        results.push({ ...record, change });
+      }
+    }
+
+    state.event = event;
+    state.recordHashes = recordHashes;
+
+    debugLog('RESOURCE_EXEC', 'Account poll completed', {
+      event,
+      fetched: records.length,
+      emitted: results.length,
+      isFirstPoll,
+    });
+
+    if (isFirstPoll && firstRun === FirstRunBehaviour.EMIT_NONE && !isManual) {
+      return [];
+    }
+    if (!results.length && isManual) {
+      // Manual runs return a sample record so the node shows example output
+      return records.slice(0, 1);
+    }
+    return results;
+  }
+
+  private async listRecords(event: AccountTriggerEvent): Promise<IDataObject[]> {
+    switch (event) {
+      case AccountTriggerEvent.CUSTOMER_CHANGED:
+        return await CustomerHandler.getInstance(this.apiService).listAll();
+      case AccountTriggerEvent.RESELLER_CHANGED:
+        return await ResellerHandler.getInstance(this.apiService).listAll();
+      default:
+        throw new Error(`Event ${event} is not supported`);
+    }
+  }
+
+  /**
+   * Hashes a record independently of the order of its keys
+   */
+  private hashRecord(record: IDataObject): string {
+    return createHash('sha256').update(this.stableStringify(record)).digest('hex');
+  }
+
+  private stableStringify(value: unknown): string {
+    if (Array.isArray(value)) {
+      return `[${value.map((item) => this.stableStringify(item)).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+      const entries = Object.keys(value)
+        .sort()
+        .map(
+          (key) => `${JSON.stringify(key)}:${this.stableStringify((value as IDataObject)[key])}`,
+        );
+      return `{${entries.join(',')}}`;
+    }
+    return JSON.stringify(value) ?? 'null';
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * @file Account Trigger Type Definitions
+ * @description Type definitions for the customer and reseller polling trigger.
+ *
+ * Defines:
+ * - Account trigger events, change kinds and first-run behaviour
+ * - Seen record state persisted in workflow static data
+ *
+ * @module CloudBlueCommerceSimpleApi/triggers/account/types
+ */
+
+import type { IDataObject } from 'n8n-workflow';
+
+export enum AccountTriggerEvent {
+  CUSTOMER_CHANGED = 'customerChanged',
+  RESELLER_CHANGED = 'resellerChanged',
+}
+
+export enum AccountChange {
+  CREATED = 'created',
+  UPDATED = 'updated',
+}
+
+export enum FirstRunBehaviour {
+  EMIT_NONE = 'emitNone',
+  EMIT_ALL = 'emitAll',
+}
+
+/**
+ * Polling state kept in the node's workflow static data
+ */
+export interface IAccountTriggerState extends IDataObject {
+  // Event the hashes were recorded for
+  event?: AccountTriggerEvent;
+  // Content hash per seen record ID
+  recordHashes?: Record<string, string>;
+}
+
+/**
+ * Emitted customer or reseller with the kind of change detected
+ */
+export interface IAccountChange extends IDataObject {
+  change: AccountChange;
+}
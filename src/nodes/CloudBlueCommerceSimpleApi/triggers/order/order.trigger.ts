@@ -0,0 +1,196 @@
+/**
+ * @file Order Trigger
+ * @description Polls the order list for the CloudBlue Commerce SimpleAPI trigger node.
+ *
+ * Implements the following events:
+ * - New order created
+ * - Order status changed (e.g. submitted → processing → completed/error)
+ *
+ * Features:
+ * - One instance per API service for consistent state management
+ * - Creation date high-water mark persisted in workflow static data
+ * - Status tracking of open orders within a bounded look-back window, seeded on activation
+ *
+ * @module CloudBlueCommerceSimpleApi/triggers/order
+ */
+
+import type { IDataObject, IPollFunctions } from 'n8n-workflow';
+import type { CloudBlueApiService } from '../../services/CloudBlueApiService';
+import type { IOrder } from '../../resources/order/order.types';
+import { OrderStatus } from '../../resources/order/order.types';
+import { OrderTriggerEvent } from './order.trigger.types';
+import type { IOpenOrder, IOrderStatusChange, IOrderTriggerState } from './order.trigger.types';
+import { debugLog } from '../../utils/debug';
+import { formatToDateTime } from '../../utils/dateValidator';
+import { getAll } from '../../utils/pagination';
+import { TRIGGER } from '../../utils/constants';
+
+const OPEN_STATUSES: string[] = [OrderStatus.SUBMITTED, OrderStatus.PROCESSING];
+
+export class OrderTrigger {
+  private static readonly instances = new WeakMap<CloudBlueApiService, OrderTrigger>();
+  private readonly apiService: CloudBlueApiService;
+
+  private constructor(apiService: CloudBlueApiService) {
+    this.apiService = apiService;
+  }
+
+  public static getInstance(apiService: CloudBlueApiService): OrderTrigger {
+    let instance = OrderTrigger.instances.get(apiService);
+    if (!instance) {
+      instance = new OrderTrigger(apiService);
+      OrderTrigger.instances.set(apiService, instance);
+    }
+    return instance;
+  }
+
+  /**
+   * Returns the orders matching the event since the previous poll and advances the state
+   */
+  public async poll(
+    pollFunctions: IPollFunctions,
+    event: OrderTriggerEvent,
+    state: IOrderTriggerState,
+  ): Promise<IDataObject[]> {
+    const now = new Date();
+    const isManual = pollFunctions.getMode() === 'manual';
+
+    if (!state.lastCreationDate) {
+      // Start from the activation time so existing orders are not emitted
+      state.lastCreationDate = formatToDateTime(now);
+      state.boundaryIds = [];
+      state.openOrders = {};
+      if (event === OrderTriggerEvent.STATUS_CHANGED) {
+        // Watch orders already open at activation; nothing is known yet, so nothing is emitted
+        const orders = await getAll<IOrder>(this.apiService, '/orders', {
+          creationTimeFrom: formatToDateTime(this.getLookbackStart(now)),
+        });
+        this.trackStatuses(orders, state);
+      }
+      debugLog('RESOURCE_EXEC', 'Initialized order trigger state', { event, state });
+      return isManual ? this.getSample() : [];
+    }
+
+    const creationTimeFrom = this.getWindowStart(event, state, now);
+    debugLog('RESOURCE_EXEC', 'Polling orders', { event, creationTimeFrom });
+
+    const orders = await getAll<IOrder>(this.apiService, '/orders', { creationTimeFrom });
+
+    const results =
+      event === OrderTriggerEvent.STATUS_CHANGED
+        ? this.trackStatuses(orders, state)
+        : this.getCreated(orders, state);
+    this.advanceHighWaterMark(orders, state);
+
+    debugLog('RESOURCE_EXEC', 'Order poll completed', {
+      event,
+      fetched: orders.length,
+      emitted: results.length,
+    });
+
+    if (!results.length && isManual) {
+      return this.getSample();
+    }
+    return results;
+  }
+
+  /**
+   * Starts at the high-water mark, or earlier to cover orders still watched for status changes
+   */
+  private getWindowStart(event: OrderTriggerEvent, state: IOrderTriggerState, now: Date): string {
+    let start = new Date(state.lastCreationDate as string);
+
+    if (event === OrderTriggerEvent.STATUS_CHANGED) {
+      const lookbackStart = this.getLookbackStart(now);
+      for (const order of Object.values(state.openOrders || {})) {
+        const created = new Date(order.creationDate);
+        if (created < start) {
+          start = created;
+        }
+      }
+      if (start < lookbackStart) {
+        start = lookbackStart;
+      }
+    }
+
+    return formatToDateTime(start);
+  }
+
+  /**
+   * Oldest creation date of the orders watched for status changes
+   */
+  private getLookbackStart(now: Date): Date {
+    return new Date(now.getTime() - TRIGGER.ORDER_STATUS_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+  }
+
+  /**
+   * Orders created after the high-water mark that have not been emitted yet
+   */
+  private getCreated(orders: IOrder[], state: IOrderTriggerState): IOrder[] {
+    const lastCreation = Date.parse(state.lastCreationDate as string);
+    const boundaryIds = state.boundaryIds || [];
+
+    return orders.filter((order) => {
+      const created = Date.parse(order.creationDate);
+      return (
+        created > lastCreation || (created === lastCreation && !boundaryIds.includes(order.id))
+      );
+    });
+  }
+
+  /**
+   * Compares order statuses with the previous poll and keeps watching open orders.
+   * Orders seen for the first time are recorded without emitting; open orders older
+   * than the look-back window drop out of the results and stop being watched.
+   */
+  private trackStatuses(orders: IOrder[], state: IOrderTriggerState): IOrderStatusChange[] {
+    const previous = state.openOrders || {};
+    const openOrders: Record<string, IOpenOrder> = {};
+    const changes: IOrderStatusChange[] = [];
+
+    for (const order of orders) {
+      const known = previous[order.id];
+      if (known && known.status !== order.status) {
+        changes.push({ ...order, previousStatus: known.status });
+      }
+      if (OPEN_STATUSES.includes(order.status)) {
+        openOrders[order.id] = { status: order.status, creationDate: order.creationDate };
+      }
+    }
+
+    state.openOrders = openOrders;
+    return changes;
+  }
+
+  /**
+   * Moves the high-water mark to the newest creation date seen
+   */
+  private advanceHighWaterMark(orders: IOrder[], state: IOrderTriggerState): void {
+    let lastCreation = Date.parse(state.lastCreationDate as string);
+    let boundaryIds = state.boundaryIds || [];
+
+    for (const order of orders) {
+      const created = Date.parse(order.creationDate);
+      if (isNaN(created)) {
+        continue;
+      }
+      if (created > lastCreation) {
+        lastCreation = created;
+        boundaryIds = [order.id];
+      } else if (created === lastCreation && !boundaryIds.includes(order.id)) {
+        boundaryIds = [...boundaryIds, order.id];
+      }
+    }
+
+    state.lastCreationDate = new Date(lastCreation).toISOString();
+    state.boundaryIds = boundaryIds;
+  }
+
+  /**
+   * Latest order, returned on manual runs so the node shows example output
+   */
+  private async getSample(): Promise<IOrder[]> {
+    const response = await this.apiService.getMany<{ data?: IOrder[] }>('/orders', {}, 1, 0);
+    return response.data?.data || [];
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * @file Order Trigger Type Definitions
+ * @description Type definitions for the order polling trigger.
+ *
+ * Defines:
+ * - Order trigger events
+ * - Polling state persisted in workflow static data
+ * - Emitted status change payload
+ *
+ * @module CloudBlueCommerceSimpleApi/triggers/order/types
+ */
+
+import type { IDataObject } from 'n8n-workflow';
+import type { IOrder, OrderStatus } from '../../resources/order/order.types';
+
+export enum OrderTriggerEvent {
+  CREATED = 'orderCreated',
+  STATUS_CHANGED = 'orderStatusChanged',
+}
+
+/**
+ * Last known state of an order that has not reached a final status yet
+ */
+export interface IOpenOrder extends IDataObject {
+  status: OrderStatus;
+  creationDate: string;
+}
+
+/**
+ * Polling state kept in the node's workflow static data
+ */
+export interface IOrderTriggerState extends IDataObject {
+  // Creation date of the newest order seen so far (high-water mark)
+  lastCreationDate?: string;
+  // IDs of the orders created exactly at the high-water mark, to skip them on the next poll
+  boundaryIds?: string[];
+  openOrders?: Record<string, IOpenOrder>;
+}
+
+/**
+ * Emitted when a watched order changes status
+ */
+export interface IOrderStatusChange extends IOrder {
+  previousStatus: OrderStatus;
+}
@@ -0,0 +1,205 @@
+/**
+ * @file Subscription Trigger
+ * @description Polls the subscription list for the CloudBlue Commerce SimpleAPI trigger node.
+ *
+ * Implements the following events:
+ * - Subscription status changed (optionally limited to target statuses)
+ * - Subscription auto-renewal disabled
+ * - Subscription expiration or renewal date within N days
+ *
+ * Features:
+ * - One instance per API service for consistent state management
+ * - Snapshot diffing against state persisted in workflow static data
+ * - Each approaching date is emitted once per subscription, including dates already
+ *   within the window on the first poll
+ *
+ * @module CloudBlueCommerceSimpleApi/triggers/subscription
+ */
+
+import type { IDataObject, IPollFunctions } from 'n8n-workflow';
+import type { CloudBlueApiService } from '../../services/CloudBlueApiService';
+import type { ISubscription } from '../../resources/subscription/subscription.types';
+import { SubscriptionHandler } from '../../resources/subscription/subscription.handler';
+import { SubscriptionDateField, SubscriptionTriggerEvent } from './subscription.trigger.types';
+import type {
+  ISubscriptionExpiring,
+  ISubscriptionSnapshot,
+  ISubscriptionTriggerState,
+  SubscriptionTriggerResult,
+} from './subscription.trigger.types';
+import { debugLog } from '../../utils/debug';
+import { TRIGGER } from '../../utils/constants';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class SubscriptionTrigger {
+  private static readonly instances = new WeakMap<CloudBlueApiService, SubscriptionTrigger>();
+  private readonly handler: SubscriptionHandler;
+
+  private constructor(apiService: CloudBlueApiService) {
+    this.handler = SubscriptionHandler.getInstance(apiService);
+  }
+
+  public static getInstance(apiService: CloudBlueApiService): SubscriptionTrigger {
+    let instance = SubscriptionTrigger.instances.get(apiService);
+    if (!instance) {
+      instance = new SubscriptionTrigger(apiService);
+      SubscriptionTrigger.instances.set(apiService, instance);
+    }
+    return instance;
+  }
+
+  /**
+   * Returns the subscriptions matching the event since the previous poll and stores a new snapshot
+   */
+  public async poll(
+    pollFunctions: IPollFunctions,
+    event: SubscriptionTriggerEvent,
+    state: ISubscriptionTriggerState,
+  ): Promise<IDataObject[]> {
+    const isManual = pollFunctions.getMode() === 'manual';
+    const subscriptions = await this.handler.listAll();
+    const isFirstPoll = !state.subscriptions;
+
+    let results: SubscriptionTriggerResult[] = [];
+    switch (event) {
+      case SubscriptionTriggerEvent.STATUS_CHANGED: {
+        const statuses = pollFunctions.getNodeParameter('statuses', []) as string[];
+        results = this.getStatusChanges(subscriptions, state, statuses);
+        break;
+      }
+      case SubscriptionTriggerEvent.RENEWAL_DISABLED:
+        results = this.getRenewalsDisabled(subscriptions, state);
+        break;
+      case SubscriptionTriggerEvent.EXPIRING: {
+        const dateField = pollFunctions.getNodeParameter(
+          'dateField',
+          SubscriptionDateField.EXPIRATION_DATE,
+        ) as SubscriptionDateField;
+        const days = pollFunctions.getNodeParameter(
+          'days',
+          TRIGGER.SUBSCRIPTION_EXPIRY_DEFAULT_DAYS,
+        ) as number;
+        results = this.getExpiring(subscriptions, state, dateField, days);
+        break;
+      }
+      default:
+        throw new Error(`Event ${event} is not supported`);
+    }
+
+    state.subscriptions = this.takeSnapshot(subscriptions);
+
+    debugLog('RESOURCE_EXEC', 'Subscription poll completed', {
+      event,
+      fetched: subscriptions.length,
+      emitted: results.length,
+    });
+
+    // Changes need a previous snapshot, so the first poll only records the current state.
+    // Expiring dates are not changes: those already within the window are emitted right away.
+    if (isFirstPoll && !isManual && event !== SubscriptionTriggerEvent.EXPIRING) {
+      return [];
+    }
+    if (!results.length && isManual) {
+      // Manual runs return a sample subscription so the node shows example output
+      return subscriptions.slice(0, 1);
+    }
+    return results;
+  }
+
+  /**
+   * Subscriptions whose status differs from the previous snapshot
+   */
+  private getStatusChanges(
+    subscriptions: ISubscription[],
+    state: ISubscriptionTriggerState,
+    statuses: string[],
+  ): SubscriptionTriggerResult[] {
+    const previous = state.subscriptions || {};
+    const results: SubscriptionTriggerResult[] = [];
+
+    for (const subscription of subscriptions) {
+      const known = previous[subscription.id];
+      if (!known || known.status === subscription.status) {
+        continue;
+      }
+      if (statuses.length && !statuses.includes(subscription.status)) {
+        continue;
+      }
+      results.push({
+        ...subscription,
+        event: SubscriptionTriggerEvent.STATUS_CHANGED,
+        previousStatus: known.status,
+      });
+    }
+    return results;
+  }
+
+  /**
+   * Subscriptions whose auto-renewal was switched off since the previous snapshot
+   */
+  private getRenewalsDisabled(
+    subscriptions: ISubscription[],
+    state: ISubscriptionTriggerState,
+  ): SubscriptionTriggerResult[] {
+    const previous = state.subscriptions || {};
+
+    return subscriptions
+      .filter((subscription) => {
+        const known = previous[subscription.id];
+        return known?.renewalStatus === true && subscription.renewalStatus === false;
+      })
+      .map((subscription) => ({
+        ...subscription,
+        event: SubscriptionTriggerEvent.RENEWAL_DISABLED,
+      }));
+  }
+
+  /**
+   * Subscriptions whose watched date falls within the next `days` days and was not reported yet
+   */
+  private getExpiring(
+    subscriptions: ISubscription[],
+    state: ISubscriptionTriggerState,
+    dateField: SubscriptionDateField,
+    days: number,
+  ): ISubscriptionExpiring[] {
+    const now = Date.now();
+    const notifiedDates = state.notifiedDates || {};
+    const stillNotified: Record<string, string> = {};
+    const results: ISubscriptionExpiring[] = [];
+
+    for (const subscription of subscriptions) {
+      const date = subscription[dateField];
+      const time = date ? Date.parse(date) : NaN;
+      if (isNaN(time) || time < now || time > now + days * DAY_MS) {
+        continue;
+      }
+
+      // A moved date (e.g. after a renewal) is reported again
+      if (notifiedDates[subscription.id] !== date) {
+        results.push({
+          ...subscription,
+          event: SubscriptionTriggerEvent.EXPIRING,
+          dateField,
+          daysRemaining: Math.ceil((time - now) / DAY_MS),
+        });
+      }
+      stillNotified[subscription.id] = date as string;
+    }
+
+    state.notifiedDates = stillNotified;
+    return results;
+  }
+
+  private takeSnapshot(subscriptions: ISubscription[]): Record<string, ISubscriptionSnapshot> {
+    const snapshot: Record<string, ISubscriptionSnapshot> = {};
+    for (const subscription of subscriptions) {
+      snapshot[subscription.id] = {
+        status: subscription.status,
+        renewalStatus: subscription.renewalStatus,
+      };
+    }
+    return snapshot;
+  }
+}
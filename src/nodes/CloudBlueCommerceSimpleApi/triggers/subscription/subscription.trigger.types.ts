@@ -0,0 +1,62 @@
+/**
+ * @file Subscription Trigger Type Definitions
+ * @description Type definitions for the subscription polling trigger.
+ *
+ * Defines:
+ * - Subscription trigger events and watched date fields
+ * - Snapshot state persisted in workflow static data
+ * - Emitted event payloads
+ *
+ * @module CloudBlueCommerceSimpleApi/triggers/subscription/types
+ */
+
+import type { IDataObject } from 'n8n-workflow';
+import type { ISubscription } from '../../resources/subscription/subscription.types';
+
+export enum SubscriptionTriggerEvent {
+  STATUS_CHANGED = 'subscriptionStatusChanged',
+  RENEWAL_DISABLED = 'subscriptionRenewalDisabled',
+  EXPIRING = 'subscriptionExpiring',
+}
+
+export enum SubscriptionDateField {
+  EXPIRATION_DATE = 'expirationDate',
+  RENEWAL_DATE = 'renewalDate',
+}
+
+/**
+ * Fields of a subscription compared between polls
+ */
+export interface ISubscriptionSnapshot extends IDataObject {
+  status: ISubscription['status'];
+  renewalStatus: boolean;
+}
+
+/**
+ * Polling state kept in the node's workflow static data
+ */
+export interface ISubscriptionTriggerState extends IDataObject {
+  subscriptions?: Record<string, ISubscriptionSnapshot>;
+  // Date already reported per subscription, so each expiry is emitted once
+  notifiedDates?: Record<string, string>;
+}
+
+export interface ISubscriptionStatusChange extends ISubscription {
+  event: SubscriptionTriggerEvent.STATUS_CHANGED;
+  previousStatus: ISubscription['status'];
+}
+
+export interface ISubscriptionRenewalDisabled extends ISubscription {
+  event: SubscriptionTriggerEvent.RENEWAL_DISABLED;
+}
+
+export interface ISubscriptionExpiring extends ISubscription {
+  event: SubscriptionTriggerEvent.EXPIRING;
+  dateField: SubscriptionDateField;
+  daysRemaining: number;
+}
+
+export type SubscriptionTriggerResult =
+  | ISubscriptionStatusChange
+  | ISubscriptionRenewalDisabled
+  | ISubscriptionExpiring;
@@ -0,0 +1,37 @@
+/**
+ * @file Concurrency Utility
+ * @description Runs indexed async tasks with a limit on how many are in flight.
+ *
+ * @module CloudBlueCommerceSimpleApi/utils/concurrency
+ */
+
+/**
+ * Calls `task` for every index from 0 to `count - 1`, at most `concurrency` at a time.
+ * Results keep the index order. After the first failure no new tasks are started and
+ * the returned promise rejects with that error.
+ */
+export async function mapWithConcurrency<T>(
+  count: number,
+  concurrency: number,
+  task: (index: number) => Promise<T>,
+): Promise<T[]> {
+  const results = new Array<T>(count);
+  let nextIndex = 0;
+  let failed = false;
+
+  const worker = async (): Promise<void> => {
+    while (!failed && nextIndex < count) {
+      const index = nextIndex++;
+      try {
+        results[index] = await task(index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(concurrency, count));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  return results;
+}
@@ -3,6 +3,12 @@
  * @description Defines global constants used throughout the CloudBlue Commerce SimpleAPI integration.
  * Currently includes:
  * - Pagination settings and limits
+ * - API service cache limits
+ * - Request retry settings
+ * - Rate limiter defaults
+ * - Trigger polling windows
+ * - Resource locator settings
+ * - Product catalog lookups
  *
  * @module CloudBlueCommerceSimpleApi/utils/constants
  */
@@ -13,6 +19,49 @@ export const PAGINATION = {
   MAX_LIMIT: 500,
 } as const;
 
+// Maximum number of per-credential API service instances kept in memory
+export const SERVICE_CACHE = {
+  MAX_INSTANCES: 20,
+} as const;
+
+// Retry settings for transient API failures
+export const RETRY = {
+  DEFAULT_MAX_ATTEMPTS: 3,
+  BASE_DELAY_MS: 1000,
+  MAX_DELAY_MS: 30000,
+  MAX_RETRY_AFTER_MS: 120000,
+  RETRYABLE_STATUS_CODES: [429, 502, 503, 504] as number[],
+} as const;
+
+// Defaults for the per-credential client-side rate limiter
+export const RATE_LIMIT = {
+  DEFAULT_BURST: 10,
+} as const;
+
+// Polling trigger settings
+export const TRIGGER = {
+  // Orders still open after this many days are no longer watched for status changes
+  ORDER_STATUS_LOOKBACK_DAYS: 30,
+  SUBSCRIPTION_EXPIRY_DEFAULT_DAYS: 30,
+} as const;
+
+// Resource locator list page size and URL patterns capturing the record ID
+export const RESOURCE_LOCATOR = {
+  PAGE_SIZE: 100,
+  URL_PATTERNS: {
+    customer: '/customers/([^/?#&]+)',
+    order: '/orders/([^/?#&]+)',
+    plan: '/plans/([^/?#&]+)',
+    subscription: '/subscriptions/([^/?#&]+)',
+  },
+} as const;
+
+// Product catalog lookups of the MPNs of an order
+export const PRODUCT_CATALOG = {
+  // MPN lookups sent at the same time; each still passes the rate limiter
+  MPN_LOOKUP_CONCURRENCY: 5,
+} as const;
+
 // Preset date options for date picker
 export const presetDateOptions = [
   { name: 'Today', value: 'today' },
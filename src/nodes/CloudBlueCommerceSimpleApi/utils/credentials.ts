@@ -1,20 +1,26 @@
-import type { IExecuteFunctions, ILoadOptionsFunctions } from 'n8n-workflow';
+import type { IExecuteFunctions, ILoadOptionsFunctions, IPollFunctions } from 'n8n-workflow';
 import { CloudBlueApiService } from '../services/CloudBlueApiService';
 
-type CredentialsFunctions = IExecuteFunctions | ILoadOptionsFunctions;
+type CredentialsFunctions = IExecuteFunctions | ILoadOptionsFunctions | IPollFunctions;
 
 export const initializeApiService = async (
   executeFunctions: CredentialsFunctions,
 ): Promise<CloudBlueApiService> => {
   const credentials = await executeFunctions.getCredentials('cloudBlueCommerceSimpleApi');
+  const credentialId = executeFunctions.getNode().credentials?.cloudBlueCommerceSimpleApi?.id;
 
   return CloudBlueApiService.getInstance(
-    credentials.apiUrl as string,
-    credentials.authUrl as string,
-    credentials.username as string,
-    credentials.password as string,
-    credentials.clientId as string,
-    credentials.clientSecret as string,
-    credentials.subscriptionKey as string,
+    {
+      apiUrl: credentials.apiUrl as string,
+      authUrl: credentials.authUrl as string,
+      username: credentials.username as string,
+      password: credentials.password as string,
+      clientId: credentials.clientId as string,
+      clientSecret: credentials.clientSecret as string,
+      subscriptionKey: credentials.subscriptionKey as string,
+      requestsPerSecond: credentials.requestsPerSecond as number | undefined,
+      burst: credentials.burst as number | undefined,
+    },
+    credentialId,
   );
 };
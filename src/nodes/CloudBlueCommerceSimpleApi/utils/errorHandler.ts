@@ -62,7 +62,7 @@ export function handleErrorWithRetry(
     if (error.httpCode === 429 && retryAttempt < maxRetries) {
       const retryAfter = (error.data?.retryAfter as number) || 60;
       throw new NodeApiError(node, errorObject, {
-        message: `Rate limit exceeded. Retrying in ${retryAfter} seconds...`,
+        message: `Rate limit exceeded. Retry after ${retryAfter} seconds`,
         description: `Attempt ${retryAttempt + 1} of ${maxRetries}`,
       });
     }
@@ -125,7 +125,7 @@ export function handleErrorWithRetry(
           10,
         );
         throw new NodeApiError(node, httpError, {
-          message: `Rate limit exceeded. Retrying in ${retryAfter} seconds...`,
+          message: `Rate limit exceeded. Retry after ${retryAfter} seconds`,
           description: `Attempt ${
             retryAttempt + 1
           } of ${maxRetries}. Will retry after ${retryAfter} seconds.`,
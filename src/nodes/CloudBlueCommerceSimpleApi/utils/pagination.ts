@@ -2,6 +2,8 @@
  * @file Pagination Handler
  * @description Common pagination logic for handling paginated API responses.
  * Implements automatic pagination for requests exceeding the API limit.
+ * Also fetches complete lists for triggers, which have no per-item limit parameters,
+ * and looks up single records page by page.
  *
  * @module CloudBlueCommerceSimpleApi/utils/pagination
  */
@@ -79,3 +81,74 @@ export async function getMany<T extends IDataObject>(
 
   return results;
 }
+
+/**
+ * Fetches every page of a list endpoint, for callers without item-level limit parameters
+ * @param apiService CloudBlue API service instance
+ * @param endpoint API endpoint to call
+ * @param params Additional request parameters
+ * @returns Array of all results
+ */
+export async function getAll<T extends IDataObject>(
+  apiService: CloudBlueApiService,
+  endpoint: string,
+  params: IDataObject = {},
+): Promise<T[]> {
+  let results: T[] = [];
+  let hasMore = true;
+
+  while (hasMore) {
+    const page = await makeRequest<T>(
+      apiService,
+      endpoint,
+      params,
+      results.length,
+      PAGINATION.MAX_LIMIT,
+    );
+    const pageData = page.data?.data || [];
+    results = results.concat(pageData);
+
+    const total = page.data?.pagination?.total;
+    hasMore = pageData.length > 0 && total !== undefined && results.length < total;
+
+    if (hasMore) {
+      debugLog('API_REQUEST', 'Fetching next page', { nextOffset: results.length, total });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Pages through a list endpoint until a record matches, without fetching the pages after it
+ * @param apiService CloudBlue API service instance
+ * @param endpoint API endpoint to call
+ * @param predicate Test applied to each record
+ * @param params Additional request parameters
+ * @returns The first matching record, if any
+ */
+export async function findFirst<T extends IDataObject>(
+  apiService: CloudBlueApiService,
+  endpoint: string,
+  predicate: (item: T) => boolean,
+  params: IDataObject = {},
+): Promise<T | undefined> {
+  let offset = 0;
+
+  for (;;) {
+    const page = await makeRequest<T>(apiService, endpoint, params, offset, PAGINATION.MAX_LIMIT);
+    const pageData = page.data?.data || [];
+    const match = pageData.find(predicate);
+    if (match) {
+      return match;
+    }
+
+    offset += pageData.length;
+    const total = page.data?.pagination?.total;
+    if (pageData.length === 0 || total === undefined || offset >= total) {
+      return undefined;
+    }
+
+    debugLog('API_REQUEST', 'Fetching next page', { nextOffset: offset, total });
+  }
+}
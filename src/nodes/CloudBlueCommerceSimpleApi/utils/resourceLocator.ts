@@ -0,0 +1,111 @@
+/**
+ * @file Resource Locator Utilities
+ * @description Helpers for resource locator fields (From List, By ID, By URL).
+ * Implements:
+ * - Reading the record ID from locator values and plain string values of older workflows
+ * - Unwrapping locator values nested in collections
+ * - Paged list search with optional client-side filtering
+ *
+ * @module CloudBlueCommerceSimpleApi/utils/resourceLocator
+ */
+
+import type { IDataObject, IExecuteFunctions } from 'n8n-workflow';
+import type { CloudBlueApiService } from '../services/CloudBlueApiService';
+import type { IListResponse, IListSearchItem, IListSearchResult } from '../interfaces/api';
+import { RESOURCE_LOCATOR } from './constants';
+
+interface IResourceLocatorValue {
+  __rl: true;
+  mode: string;
+  value: string;
+}
+
+/**
+ * Returns the record ID selected in a resource locator parameter
+ * @param executeFunctions n8n execute functions
+ * @param parameterName Name of the resource locator parameter
+ * @param i Item index
+ * @param urlPattern Pattern capturing the ID when the value is given as a URL
+ */
+export function getResourceLocatorId(
+  executeFunctions: IExecuteFunctions,
+  parameterName: string,
+  i: number,
+  urlPattern: string,
+): string {
+  const parameter = executeFunctions.getNodeParameter(parameterName, i) as
+    | IResourceLocatorValue
+    | string;
+
+  // Workflows saved before the field became a resource locator hold a plain string
+  if (typeof parameter !== 'object' || parameter === null) {
+    return String(parameter ?? '').trim();
+  }
+
+  const value = String(parameter.value ?? '').trim();
+  if (parameter.mode === 'url' && value) {
+    const match = value.match(new RegExp(urlPattern));
+    if (!match) {
+      throw new Error(`Could not extract an ID from URL: ${value}`);
+    }
+    return match[1];
+  }
+  return value;
+}
+
+/**
+ * Returns the value of a resource locator nested in a collection, which n8n passes on as is.
+ * Plain strings, such as those of workflows saved before the field became a locator, pass through.
+ */
+export function getResourceLocatorValue(parameter: unknown): string {
+  if (typeof parameter !== 'object' || parameter === null) {
+    return String(parameter ?? '').trim();
+  }
+  return String((parameter as IResourceLocatorValue).value ?? '').trim();
+}
+
+/**
+ * Fetches one page of a list endpoint for a resource locator list.
+ * Without `params` for server-side search, the page is filtered locally on the item name and ID.
+ * @param apiService CloudBlue API service instance
+ * @param endpoint List endpoint to call
+ * @param toItem Maps a record to a list entry
+ * @param filter Search text typed by the user
+ * @param paginationToken Offset of the page to fetch
+ * @param params Query parameters, including any server-side search filter
+ */
+export async function searchList<T extends IDataObject>(
+  apiService: CloudBlueApiService,
+  endpoint: string,
+  toItem: (record: T) => IListSearchItem,
+  filter?: string,
+  paginationToken?: string | number,
+  params?: IDataObject,
+): Promise<IListSearchResult> {
+  const offset = Number(paginationToken) || 0;
+  const response = await apiService.getMany<IListResponse<T>>(
+    endpoint,
+    params,
+    RESOURCE_LOCATOR.PAGE_SIZE,
+    offset,
+  );
+
+  const records = response.data?.data || [];
+  let results = records.map(toItem);
+
+  const search = filter?.trim().toLowerCase();
+  if (search && !params) {
+    results = results.filter(
+      (item) => item.name.toLowerCase().includes(search) || item.value.toLowerCase() === search,
+    );
+  }
+
+  const nextOffset = offset + records.length;
+  const total = response.data?.pagination?.total;
+  const hasMore = records.length > 0 && total !== undefined && nextOffset < total;
+
+  return {
+    results,
+    paginationToken: hasMore ? nextOffset : undefined,
+  };
+}
@@ -0,0 +1,13 @@
+/**
+ * @file Sleep Utility
+ * @description Promise-based delay used by polling operations.
+ *
+ * @module CloudBlueCommerceSimpleApi/utils/sleep
+ */
+
+/**
+ * Resolves after the given number of milliseconds
+ */
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
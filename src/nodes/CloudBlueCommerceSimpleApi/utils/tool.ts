@@ -0,0 +1,209 @@
+/**
+ * @file AI Tool Utilities
+ * @description Helpers for running the node as an AI agent tool.
+ * Implements:
+ * - Detection of tool executions
+ * - Guard rail allowing agents only listed read operations unless writes are enabled
+ * - Flat filter schemas typed against the resource filter interfaces
+ * - Parsing and validation of filters supplied by the agent
+ *
+ * @module CloudBlueCommerceSimpleApi/utils/tool
+ */
+
+import type { IDataObject, IExecuteFunctions } from 'n8n-workflow';
+import type { ICustomerFilters } from '../resources/customer/customer.types';
+import type { IOrderFilter } from '../resources/order/order.types';
+import { OrderStatus } from '../resources/order/order.types';
+import { SubscriptionStatus } from '../resources/subscription/subscription.types';
+import type { ISubscriptionFilter } from '../interfaces/filters';
+import { formatToDate, formatToDateTime } from './dateValidator';
+import { debugLog } from './debug';
+
+/**
+ * Declared keys of a filter interface, without the IDataObject index signature
+ */
+type KnownKeys<T> = keyof {
+  [K in keyof T as string extends K ? never : number extends K ? never : K]: T[K];
+};
+
+export interface IToolFilterField {
+  description: string;
+  options?: readonly string[];
+  format?: 'date' | 'date-time';
+}
+
+/**
+ * One entry per filter of the interface; pagination is left to the Limit field
+ */
+export type ToolFilterSchema<T> = Record<
+  Exclude<KnownKeys<T>, 'offset' | 'limit'>,
+  IToolFilterField
+>;
+
+export const customerToolFilterSchema: ToolFilterSchema<ICustomerFilters> = {
+  name: { description: 'Customer name, matched by similarity' },
+  email: { description: 'Contact email address' },
+  externalId: { description: 'ID of the customer in an external system' },
+  resellerId: { description: 'ID of the reseller owning the customer' },
+};
+
+export const orderToolFilterSchema: ToolFilterSchema<IOrderFilter> = {
+  customerId: { description: 'ID of the customer that placed the order' },
+  subscriptionId: { description: 'ID of the subscription created by the order' },
+  orderNumber: { description: 'Order number shown to users' },
+  status: {
+    description: 'Order status',
+    options: Object.values(OrderStatus),
+  },
+  statusCode: { description: 'Internal order status code' },
+  creationTimeFrom: {
+    description: 'Orders created at or after this time',
+    format: 'date-time',
+  },
+  creationTimeTo: {
+    description: 'Orders created at or before this time',
+    format: 'date-time',
+  },
+};
+
+export const subscriptionToolFilterSchema: ToolFilterSchema<ISubscriptionFilter> = {
+  customerId: { description: 'ID of the customer owning the subscription' },
+  status: {
+    description: 'Subscription status',
+    options: Object.values(SubscriptionStatus),
+  },
+  creationDateFrom: {
+    description: 'Subscriptions created on or after this date',
+    format: 'date',
+  },
+  creationDateTo: {
+    description: 'Subscriptions created on or before this date',
+    format: 'date',
+  },
+};
+
+// Operations that only read data, per resource. Any other operation counts as a write,
+// so operations added later stay blocked for agents until they are listed here.
+const READ_OPERATIONS: Record<string, string[]> = {
+  customer: ['get', 'getMany', 'getManyForReseller'],
+  order: ['get', 'getMany', 'getResellerOrders', 'estimate'],
+  plan: ['get', 'getMany'],
+  product: ['getMany'],
+  report: ['get', 'getMany', 'waitAndDownload'],
+  reseller: ['get', 'getMany'],
+  subscription: ['get', 'getMany'],
+  validation: ['validateParameters'],
+};
+
+/**
+ * Whether the node runs as a tool of an AI agent
+ */
+export function isToolExecution(executeFunctions: IExecuteFunctions): boolean {
+  return executeFunctions.getNode().type.endsWith('Tool');
+}
+
+/**
+ * Throws when an agent calls an operation that is not a known read operation
+ * and write operations have not been enabled on the tool
+ */
+export function assertToolOperationAllowed(
+  executeFunctions: IExecuteFunctions,
+  resource: string,
+  operation: string,
+  i: number,
+): void {
+  if (!isToolExecution(executeFunctions)) {
+    return;
+  }
+
+  const isRead =
+    resource === 'customApiCall'
+      ? executeFunctions.getNodeParameter('method', i, 'GET') === 'GET'
+      : (READ_OPERATIONS[resource] || []).includes(operation);
+  if (isRead) {
+    return;
+  }
+
+  const allowed = executeFunctions.getNodeParameter('allowWriteOperations', i, false) as boolean;
+  if (!allowed) {
+    throw new Error(
+      `Operation ${resource} ${operation} is not a read operation and is disabled for this tool. ` +
+        'Enable "Allow Write Operations" on the tool to permit it.',
+    );
+  }
+}
+
+/**
+ * Describes a filter schema for the agent, one line per filter
+ */
+export function describeToolFilterSchema(schema: Record<string, IToolFilterField>): string {
+  return Object.entries(schema)
+    .map(([key, field]) => {
+      let type = 'string';
+      if (field.options) {
+        type = `one of ${field.options.join(', ')}`;
+      } else if (field.format === 'date') {
+        type = 'date YYYY-MM-DD';
+      } else if (field.format === 'date-time') {
+        type = 'ISO 8601 date-time';
+      }
+      return `${key} (${type}): ${field.description}`;
+    })
+    .join('; ');
+}
+
+/**
+ * Reads the JSON filters an agent passed to a Get Many operation and returns API parameters.
+ * Returns no filters outside tool executions.
+ */
+export function getToolFilters(
+  executeFunctions: IExecuteFunctions,
+  i: number,
+  schema: Record<string, IToolFilterField>,
+): IDataObject {
+  if (!isToolExecution(executeFunctions)) {
+    return {};
+  }
+
+  const raw = executeFunctions.getNodeParameter('toolFilters', i, {}) as string | IDataObject;
+  let input: unknown = raw;
+  if (typeof raw === 'string') {
+    try {
+      input = raw.trim() ? JSON.parse(raw) : {};
+    } catch {
+      throw new Error('Filters must be a JSON object');
+    }
+  }
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    throw new Error('Filters must be a JSON object');
+  }
+
+  const filters: IDataObject = {};
+  for (const [key, value] of Object.entries(input as IDataObject)) {
+    const field = schema[key];
+    if (!field) {
+      throw new Error(
+        `Unknown filter "${key}". Allowed filters: ${Object.keys(schema).join(', ')}`,
+      );
+    }
+    if (value === undefined || value === null || value === '') {
+      continue;
+    }
+    const text = String(value).trim();
+    if (field.options && !field.options.includes(text)) {
+      throw new Error(`Filter "${key}" must be one of: ${field.options.join(', ')}`);
+    }
+    if (field.format) {
+      const date = new Date(text);
+      if (Number.isNaN(date.getTime())) {
+        throw new Error(`Filter "${key}" must be a valid date`);
+      }
+      filters[key] = field.format === 'date' ? formatToDate(date) : formatToDateTime(date);
+      continue;
+    }
+    filters[key] = text;
+  }
+
+  debugLog('RESOURCE_EXEC', 'Tool filters parsed', { filters });
+  return filters;
+}
@@ -0,0 +1,119 @@
+import type { IDataObject } from 'n8n-workflow';
+import { CloudBlueCommerceSimpleApiTrigger } from '../src/nodes/CloudBlueCommerceSimpleApi/CloudBlueCommerceSimpleApiTrigger.node';
+import type { ICloudBlueCredentials } from '../src/nodes/CloudBlueCommerceSimpleApi/services/CloudBlueApiService';
+import { AccountTrigger } from '../src/nodes/CloudBlueCommerceSimpleApi/triggers/account/account.trigger';
+import { AccountTriggerEvent } from '../src/nodes/CloudBlueCommerceSimpleApi/triggers/account/account.trigger.types';
+import type { IAccountTriggerState } from '../src/nodes/CloudBlueCommerceSimpleApi/triggers/account/account.trigger.types';
+import { listResponse, useFakeServer } from './helpers/fakeServer';
+import { createPollFunctions } from './helpers/nodeFunctions';
+import type { NodeParameters } from './helpers/nodeFunctions';
+
+describe('Account trigger', () => {
+  const server = useFakeServer();
+  const node = new CloudBlueCommerceSimpleApiTrigger();
+  let customers: IDataObject[];
+  let resellers: IDataObject[];
+  let credentials: ICloudBlueCredentials;
+  let staticData: IDataObject;
+
+  beforeEach(() => {
+    customers = [
+      { id: 'c1', name: 'Customer 1' },
+      { id: 'c2', name: 'Customer 2' },
+    ];
+    resellers = [{ id: 'r1', name: 'Reseller 1' }];
+    credentials = server.createCredentials();
+    staticData = {};
+    server.onApi(({ path, query }) =>
+      listResponse(path === '/resellers' ? resellers : customers, query),
+    );
+  });
+
+  async function poll(parameters: NodeParameters): Promise<IDataObject[]> {
+    const pollFunctions = createPollFunctions({ parameters, credentials, staticData });
+    const output = await node.poll.call(pollFunctions);
+    return output ? output[0].map((item) => item.json) : [];
+  }
+
+  function changes(results: IDataObject[]): string[] {
+    return results.map((result) => `${result.id}:${result.change}`);
+  }
+
+  const customerChanged = { event: 'customerChanged', firstRun: 'emitNone' };
+  const resellerChanged = { event: 'resellerChanged', firstRun: 'emitNone' };
+
+  it('emits nothing on the first poll by default, then created and updated records', async () => {
+    expect(await poll(customerChanged)).toEqual([]);
+
+    customers[0] = { ...customers[0], name: 'Renamed' };
+    customers.push({ id: 'c3', name: 'Customer 3' });
+
+    expect(changes(await poll(customerChanged))).toEqual(['c1:updated', 'c3:created']);
+    expect(await poll(customerChanged)).toEqual([]);
+  });
+
+  it('hashes records independently of key order', async () => {
+    await poll(customerChanged);
+    customers[0] = { name: 'Customer 1', id: 'c1' };
+
+    expect(await poll(customerChanged)).toEqual([]);
+  });
+
+  it('only emits the selected kinds of change', async () => {
+    const updatesOnly = { ...customerChanged, changes: ['updated'] };
+    await poll(updatesOnly);
+
+    customers[1] = { ...customers[1], name: 'Renamed' };
+    customers.push({ id: 'c3', name: 'Customer 3' });
+
+    expect(changes(await poll(updatesOnly))).toEqual(['c2:updated']);
+  });
+
+  it('emits every existing record as created on the first poll with Emit All', async () => {
+    expect(changes(await poll({ ...customerChanged, firstRun: 'emitAll' }))).toEqual([
+      'c1:created',
+      'c2:created',
+    ]);
+  });
+
+  it.each([
+    ['emitNone', []],
+    ['emitAll', ['r1:created']],
+  ])(
+    'honours %s on the first poll after switching from customers to resellers',
+    async (firstRun, expected) => {
+      await poll(customerChanged);
+      await poll(customerChanged);
+
+      expect(changes(await poll({ ...resellerChanged, firstRun }))).toEqual(expected);
+
+      resellers.push({ id: 'r2', name: 'Reseller 2' });
+      expect(changes(await poll({ ...resellerChanged, firstRun }))).toEqual(['r2:created']);
+    },
+  );
+
+  it.each([
+    ['emitNone', []],
+    ['emitAll', ['c1:created', 'c2:created']],
+  ])(
+    'honours %s on the first poll after switching from resellers to customers',
+    async (firstRun, expected) => {
+      await poll(resellerChanged);
+
+      expect(changes(await poll({ ...customerChanged, firstRun }))).toEqual(expected);
+    },
+  );
+
+  it('does not diff records against hashes recorded for the other event', async () => {
+    const trigger = AccountTrigger.getInstance(server.createService(credentials));
+    const state: IAccountTriggerState = {};
+    const pollWith = (parameters: NodeParameters, event: AccountTriggerEvent) =>
+      trigger.poll(createPollFunctions({ parameters, credentials, staticData }), event, state);
+
+    await pollWith(customerChanged, AccountTriggerEvent.CUSTOMER_CHANGED);
+
+    expect(await pollWith(resellerChanged, AccountTriggerEvent.RESELLER_CHANGED)).toEqual([]);
+    expect(state.event).toBe(AccountTriggerEvent.RESELLER_CHANGED);
+    expect(Object.keys(state.recordHashes || {})).toEqual(['r1']);
+  });
+});
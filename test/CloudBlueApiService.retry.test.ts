@@ -0,0 +1,127 @@
+import { sleep } from '../src/nodes/CloudBlueCommerceSimpleApi/utils/sleep';
+import type { IFakeResponse } from './helpers/fakeServer';
+import { useFakeServer } from './helpers/fakeServer';
+
+jest.mock('../src/nodes/CloudBlueCommerceSimpleApi/utils/sleep', () => ({
+  sleep: jest.fn(async () => undefined),
+}));
+
+const sleepMock = sleep as jest.MockedFunction<typeof sleep>;
+
+describe('CloudBlueApiService retries', () => {
+  const server = useFakeServer();
+
+  beforeEach(() => {
+    sleepMock.mockClear();
+  });
+
+  // Answers API requests with the given responses in turn, then with 200
+  function respondWith(...responses: IFakeResponse[]): void {
+    server.onApi(() => responses.shift() || { status: 200, body: { ok: true } });
+  }
+
+  function delays(): number[] {
+    return sleepMock.mock.calls.map(([ms]) => ms);
+  }
+
+  it('retries retryable statuses with exponential backoff', async () => {
+    const service = server.createService().withRetryOptions({ jitter: false });
+    respondWith({ status: 503 }, { status: 502 });
+
+    const response = await service.get('/customers');
+
+    expect(response.data).toEqual({ ok: true });
+    expect(server.apiRequests).toHaveLength(3);
+    expect(delays()).toEqual([1000, 2000]);
+  });
+
+  it('keeps jittered delays between half and all of the backoff', async () => {
+    const service = server.createService().withRetryOptions({ maxAttempts: 4 });
+    respondWith({ status: 503 }, { status: 503 }, { status: 503 });
+
+    await service.get('/customers');
+
+    const [first, second, third] = delays();
+    expect(first).toBeGreaterThanOrEqual(500);
+    expect(first).toBeLessThanOrEqual(1000);
+    expect(second).toBeGreaterThanOrEqual(1000);
+    expect(second).toBeLessThanOrEqual(2000);
+    expect(third).toBeGreaterThanOrEqual(2000);
+    expect(third).toBeLessThanOrEqual(4000);
+  });
+
+  it('waits as long as Retry-After asks', async () => {
+    const service = server.createService().withRetryOptions({ jitter: false });
+    respondWith({ status: 429, headers: { 'Retry-After': '7' } });
+
+    await service.get('/customers');
+
+    expect(delays()).toEqual([7000]);
+  });
+
+  it('gives up when Retry-After exceeds the maximum wait', async () => {
+    const service = server.createService();
+    respondWith({ status: 429, headers: { 'Retry-After': '600' } });
+
+    await expect(service.get('/customers')).rejects.toMatchObject({ httpCode: 429 });
+    expect(server.apiRequests).toHaveLength(1);
+    expect(sleepMock).not.toHaveBeenCalled();
+  });
+
+  it('stops after the configured number of attempts', async () => {
+    const service = server.createService().withRetryOptions({ maxAttempts: 2, jitter: false });
+    respondWith({ status: 503 }, { status: 503 }, { status: 503 });
+
+    await expect(service.get('/customers')).rejects.toMatchObject({ httpCode: 503 });
+    expect(server.apiRequests).toHaveLength(2);
+  });
+
+  it('does not retry other client errors', async () => {
+    const service = server.createService();
+    respondWith({ status: 400, body: { message: 'Bad request' } });
+
+    await expect(service.get('/customers')).rejects.toMatchObject({ httpCode: 400 });
+    expect(server.apiRequests).toHaveLength(1);
+  });
+
+  it('retries POST requests only when non-idempotent retries are enabled', async () => {
+    const service = server.createService();
+    respondWith({ status: 503 });
+    await expect(
+      service.request({ method: 'POST', url: '/orders', data: { customerId: '1' } }),
+    ).rejects.toMatchObject({ httpCode: 503 });
+    expect(server.apiRequests).toHaveLength(1);
+
+    server.apiRequests.length = 0;
+    respondWith({ status: 503 });
+    await service
+      .withRetryOptions({ retryNonIdempotent: true })
+      .request({ method: 'POST', url: '/orders', data: { customerId: '1' } });
+    expect(server.apiRequests).toHaveLength(2);
+  });
+
+  it('retries network failures', async () => {
+    // Nothing listens on port 1, so every API request fails to connect
+    const service = server
+      .createService({ apiUrl: 'http://127.0.0.1:1/api' })
+      .withRetryOptions({ jitter: false });
+
+    await expect(service.get('/customers')).rejects.toThrow('fetch failed');
+    expect(delays()).toEqual([1000, 2000]);
+  });
+
+  it('fails at once on an invalid API URL', async () => {
+    const service = server.createService({ apiUrl: 'not a url' });
+
+    await expect(service.get('/customers')).rejects.toThrow('Invalid URL');
+    expect(sleepMock).not.toHaveBeenCalled();
+    expect(server.tokenRequests).toHaveLength(0);
+  });
+
+  it('fails at once on an invalid auth URL', async () => {
+    const service = server.createService({ authUrl: 'not a url' });
+
+    await expect(service.get('/customers')).rejects.toThrow('Failed to parse URL');
+    expect(sleepMock).not.toHaveBeenCalled();
+  });
+});
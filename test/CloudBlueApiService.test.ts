@@ -0,0 +1,86 @@
+import type { CloudBlueApiService } from '../src/nodes/CloudBlueCommerceSimpleApi/services/CloudBlueApiService';
+import { useFakeServer } from './helpers/fakeServer';
+
+describe('CloudBlueApiService token handling', () => {
+  const server = useFakeServer();
+
+  function expireToken(service: CloudBlueApiService): void {
+    server.getSession(service).tokenExpiry = Date.now() - 1;
+  }
+
+  function grantTypes(): (string | null)[] {
+    return server.tokenRequests.map((params) => params.get('grant_type'));
+  }
+
+  it('uses the password grant first and stores the refresh token', async () => {
+    const service = server.createService();
+    server.respondToToken(200, server.issueToken('refresh-a'));
+
+    await service.get('/ping');
+
+    expect(grantTypes()).toEqual(['password']);
+    expect(server.tokenRequests[0].get('password')).toBe('secret');
+    expect(server.getSession(service).refreshToken).toBe('refresh-a');
+  });
+
+  it('uses the refresh token grant once the token has expired', async () => {
+    const service = server.createService();
+    server.respondToToken(200, server.issueToken('refresh-a'));
+    await service.get('/ping');
+
+    expireToken(service);
+    server.respondToToken(200, server.issueToken('refresh-b'));
+    await service.get('/ping');
+
+    expect(grantTypes()).toEqual(['password', 'refresh_token']);
+    expect(server.tokenRequests[1].get('refresh_token')).toBe('refresh-a');
+    expect(server.tokenRequests[1].has('password')).toBe(false);
+    expect(server.getSession(service).refreshToken).toBe('refresh-b');
+  });
+
+  it.each([400, 401])(
+    'clears a refresh token rejected with %i and falls back to the password grant',
+    async (status) => {
+      const service = server.createService();
+      server.respondToToken(200, server.issueToken('refresh-a'));
+      await service.get('/ping');
+
+      expireToken(service);
+      server.respondToToken(status, { error: 'invalid_grant' });
+      server.respondToToken(200, server.issueToken());
+      const response = await service.get<{ token: string }>('/ping');
+
+      expect(grantTypes()).toEqual(['password', 'refresh_token', 'password']);
+      expect(server.getSession(service).refreshToken).toBeNull();
+      expect(response.data.token).toBe(server.getSession(service).accessToken);
+    },
+  );
+
+  it('keeps the previous refresh token when the response does not rotate it', async () => {
+    const service = server.createService();
+    server.respondToToken(200, server.issueToken('refresh-a'));
+    await service.get('/ping');
+
+    expireToken(service);
+    server.respondToToken(200, server.issueToken());
+    await service.get('/ping');
+
+    expect(grantTypes()).toEqual(['password', 'refresh_token']);
+    expect(server.getSession(service).refreshToken).toBe('refresh-a');
+  });
+
+  it('shares one token request between concurrent requests rejected with 401', async () => {
+    const service = server.createService();
+    server.respondToToken(200, server.issueToken('refresh-a'));
+    await service.get('/ping');
+
+    server.validTokens.delete(server.getSession(service).accessToken as string);
+    const [first, second] = await Promise.all([
+      service.get<{ token: string }>('/ping'),
+      service.get<{ token: string }>('/ping'),
+    ]);
+
+    expect(grantTypes()).toEqual(['password', 'refresh_token']);
+    expect(first.data.token).toBe(second.data.token);
+  });
+});
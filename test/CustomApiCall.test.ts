@@ -0,0 +1,44 @@
+import { CustomApiCallHandler } from '../src/nodes/CloudBlueCommerceSimpleApi/resources/customApiCall/customApiCall.handler';
+import { createExecuteFunctions } from './helpers/nodeFunctions';
+import { useFakeServer } from './helpers/fakeServer';
+
+// Both resolve to http://evil.com/x once the leading "/" is stripped
+const ESCAPING_PATHS = ['/\\/evil.com/x', '/\\\\evil.com/x'];
+
+describe('Custom API Call', () => {
+  const server = useFakeServer();
+
+  it('sends paths relative to the API URL', async () => {
+    const service = server.createService();
+    const executeFunctions = createExecuteFunctions({
+      parameters: { method: 'GET', path: '/customers/1' },
+    });
+
+    await CustomApiCallHandler.getInstance(service).execute(executeFunctions, 'request', 0);
+
+    expect(server.apiRequests.map((request) => request.path)).toEqual(['/customers/1']);
+  });
+
+  it.each(ESCAPING_PATHS)('rejects the path %s before sending anything', async (path) => {
+    const service = server.createService();
+    const executeFunctions = createExecuteFunctions({ parameters: { method: 'GET', path } });
+
+    await expect(
+      CustomApiCallHandler.getInstance(service).execute(executeFunctions, 'request', 0),
+    ).rejects.toThrow('Path must be relative to the API URL');
+    expect(server.tokenRequests).toHaveLength(0);
+  });
+
+  it.each(ESCAPING_PATHS)(
+    'never sends the token to another origin for the path %s',
+    async (path) => {
+      const service = server.createService();
+      const fetchSpy = jest.spyOn(global, 'fetch');
+
+      await expect(service.get(path)).rejects.toThrow('Path resolves outside the API URL');
+      const urls = fetchSpy.mock.calls.map(([url]) => String(url));
+      expect(urls.every((url) => url.startsWith(server.url))).toBe(true);
+      fetchSpy.mockRestore();
+    },
+  );
+});
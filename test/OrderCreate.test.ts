@@ -0,0 +1,212 @@
+import { CloudBlueCommerceSimpleApi } from '../src/nodes/CloudBlueCommerceSimpleApi/CloudBlueCommerceSimpleApi.node';
+import { PAGINATION } from '../src/nodes/CloudBlueCommerceSimpleApi/utils/constants';
+import { createExecuteFunctions } from './helpers/nodeFunctions';
+import type { NodeParameters } from './helpers/nodeFunctions';
+import { listResponse, useFakeServer } from './helpers/fakeServer';
+import type { IFakeRequest, IFakeResponse } from './helpers/fakeServer';
+
+interface IStoredOrder {
+  id: string;
+  customerId: string;
+  poNumber?: string;
+  status: string;
+}
+
+describe('Order creation', () => {
+  const server = useFakeServer();
+  const node = new CloudBlueCommerceSimpleApi();
+  const catalog = ['MPN-1', 'MPN-2', 'MPN-3', 'MPN-10'].map((mpn) => ({ mpn }));
+  let orders: IStoredOrder[];
+  let customers = 0;
+
+  // Serves a catalog, and orders that are stored when posted
+  function serveApi(delays: { products?: number; orders?: number } = {}): void {
+    server.onApi((request: IFakeRequest): IFakeResponse => {
+      const { method, path, query } = request;
+      if (path === '/products') {
+        // Like the API, the mpn filter matches partially
+        const mpn = query.get('mpn') || '';
+        const products = catalog.filter((product) => product.mpn.includes(mpn));
+        return { ...listResponse(products, query), delay: delays.products };
+      }
+      if (path === '/orders' && method === 'GET') {
+        const customerOrders = orders.filter(
+          (order) => order.customerId === query.get('customerId'),
+        );
+        return { ...listResponse(customerOrders, query), delay: delays.orders };
+      }
+      if (path === '/orders' && method === 'POST') {
+        const body = request.body as IStoredOrder;
+        const order = { ...body, id: `O-${orders.length + 1}`, status: 'submitted' };
+        orders.push(order);
+        return { status: 201, body: order };
+      }
+      if (path === '/orders/estimate') {
+        return { status: 200, body: { total: { amount: 10, currency: 'USD' } } };
+      }
+      return { status: 404, body: { message: 'No entity has been found' } };
+    });
+  }
+
+  function orderParameters(customerId: string, overrides: NodeParameters = {}): NodeParameters {
+    return {
+      resource: 'order',
+      operation: 'create',
+      data: {
+        values: {
+          customerId,
+          poNumber: 'PO-1',
+          products: { product: [{ mpn: 'MPN-1', quantity: 1 }] },
+        },
+      },
+      preventDuplicates: true,
+      ...overrides,
+    };
+  }
+
+  function run(parameters: NodeParameters[]) {
+    const executeFunctions = createExecuteFunctions({
+      parameters,
+      credentials: server.createCredentials(),
+    });
+    return node.execute.call(executeFunctions);
+  }
+
+  function requests(method: string, path: string): IFakeRequest[] {
+    return server.apiRequests.filter(
+      (request) => request.method === method && request.path === path,
+    );
+  }
+
+  beforeEach(() => {
+    orders = [];
+    // Creations are locked per customer and PO number for the whole process
+    customers++;
+  });
+
+  describe('MPN check', () => {
+    it('looks up the MPNs concurrently and rejects the order before posting it', async () => {
+      serveApi({ products: 50 });
+      const parameters = orderParameters(`C-${customers}`, { preventDuplicates: false });
+      (parameters.data as NodeParameters).values = {
+        customerId: `C-${customers}`,
+        products: {
+          product: ['MPN-1', 'MPN-2', 'MPN-4', 'MPN-5', 'MPN-1'].map((mpn) => ({
+            mpn,
+            quantity: 1,
+          })),
+        },
+      };
+
+      await expect(run([parameters])).rejects.toThrow(
+        'MPN not found in the product catalog: MPN-4, MPN-5',
+      );
+
+      const lookups = requests('GET', '/products');
+      expect(lookups.map((request) => request.query.get('mpn'))).toEqual([
+        'MPN-1',
+        'MPN-2',
+        'MPN-4',
+        'MPN-5',
+      ]);
+      // All lookups were sent before the first answer arrived
+      const spread = lookups[lookups.length - 1].receivedAt - lookups[0].receivedAt;
+      expect(spread).toBeLessThan(50);
+      expect(requests('POST', '/orders')).toHaveLength(0);
+    });
+
+    it('requires an exact match when the MPN filter also matches other products', async () => {
+      serveApi();
+      const parameters = orderParameters(`C-${customers}`, { preventDuplicates: false });
+      (parameters.data as NodeParameters).values = {
+        customerId: `C-${customers}`,
+        products: { product: [{ mpn: 'MPN', quantity: 1 }] },
+      };
+
+      await expect(run([parameters])).rejects.toThrow('MPN not found in the product catalog: MPN');
+    });
+  });
+
+  describe('duplicate prevention', () => {
+    it('posts once for concurrent creations of the same PO number', async () => {
+      serveApi({ orders: 50 });
+      const customerId = `C-${customers}`;
+
+      const [output] = await run([
+        { ...orderParameters(customerId), requestOptions: { parallelism: 2 } },
+        { ...orderParameters(customerId), requestOptions: { parallelism: 2 } },
+      ]);
+
+      expect(requests('POST', '/orders')).toHaveLength(1);
+      expect(requests('GET', '/orders')).toHaveLength(1);
+      expect(output[0].json).toMatchObject({ id: 'O-1', poNumber: 'PO-1' });
+      expect(output[0].json.duplicate).toBeUndefined();
+      expect(output[1].json).toMatchObject({ id: 'O-1', duplicate: true });
+    });
+
+    it('returns an existing order and stops paging at the first match', async () => {
+      serveApi();
+      const customerId = `C-${customers}`;
+      orders = Array.from({ length: PAGINATION.MAX_LIMIT * 2 }, (_, index) => ({
+        id: `O-${index}`,
+        customerId,
+        poNumber: index === 3 ? 'PO-1' : `PO-other-${index}`,
+        status: 'completed',
+      }));
+
+      const [output] = await run([orderParameters(customerId)]);
+
+      expect(output[0].json).toMatchObject({ id: 'O-3', duplicate: true });
+      expect(requests('GET', '/orders')).toHaveLength(1);
+      expect(requests('POST', '/orders')).toHaveLength(0);
+    });
+
+    it('ignores cancelled orders with the same PO number', async () => {
+      serveApi();
+      const customerId = `C-${customers}`;
+      orders = [{ id: 'O-0', customerId, poNumber: 'PO-1', status: 'cancelled' }];
+
+      const [output] = await run([orderParameters(customerId)]);
+
+      expect(requests('POST', '/orders')).toHaveLength(1);
+      expect(output[0].json).toMatchObject({ id: 'O-2', poNumber: 'PO-1' });
+      expect(output[0].json.duplicate).toBeUndefined();
+    });
+
+    it('sends the idempotency key as the PO number', async () => {
+      serveApi();
+      const customerId = `C-${customers}`;
+      const parameters = orderParameters(customerId, { idempotencyKey: 'ticket-7' });
+      (parameters.data as NodeParameters).values = {
+        customerId,
+        products: { product: [{ mpn: 'MPN-1', quantity: 1 }] },
+      };
+
+      await run([parameters]);
+
+      expect(requests('GET', '/orders')[0].query.get('customerId')).toBe(customerId);
+      expect(requests('POST', '/orders')[0].body).toMatchObject({ poNumber: 'ticket-7' });
+    });
+
+    it('does not lock dry runs, which look up the PO number each and post nothing', async () => {
+      serveApi({ orders: 50 });
+      const customerId = `C-${customers}`;
+      const requestOptions = { parallelism: 2, dryRun: true };
+
+      const [output] = await run([
+        { ...orderParameters(customerId), requestOptions },
+        { ...orderParameters(customerId), requestOptions },
+      ]);
+
+      expect(requests('GET', '/orders')).toHaveLength(2);
+      expect(requests('POST', '/orders')).toHaveLength(0);
+      expect(requests('POST', '/orders/estimate')).toHaveLength(2);
+      expect(output.map((item) => item.json.duplicate)).toEqual([undefined, undefined]);
+      expect(output[0].json).toMatchObject({
+        dryRun: true,
+        method: 'POST',
+        url: expect.stringMatching(/\/api\/orders$/),
+      });
+    });
+  });
+});
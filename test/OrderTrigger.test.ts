@@ -0,0 +1,115 @@
+import type { IDataObject } from 'n8n-workflow';
+import { CloudBlueCommerceSimpleApiTrigger } from '../src/nodes/CloudBlueCommerceSimpleApi/CloudBlueCommerceSimpleApiTrigger.node';
+import type { ICloudBlueCredentials } from '../src/nodes/CloudBlueCommerceSimpleApi/services/CloudBlueApiService';
+import { listResponse, useFakeServer } from './helpers/fakeServer';
+import { createPollFunctions } from './helpers/nodeFunctions';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface IFakeOrder {
+  id: string;
+  status: string;
+  creationDate: string;
+}
+
+describe('Order trigger', () => {
+  const server = useFakeServer();
+  const node = new CloudBlueCommerceSimpleApiTrigger();
+  let orders: IFakeOrder[];
+  let credentials: ICloudBlueCredentials;
+  let staticData: IDataObject;
+
+  beforeEach(() => {
+    orders = [];
+    credentials = server.createCredentials();
+    staticData = {};
+    server.onApi(({ query }) => {
+      const from = Date.parse(query.get('creationTimeFrom') || '1970-01-01T00:00:00Z');
+      return listResponse(
+        orders.filter((order) => Date.parse(order.creationDate) >= from),
+        query,
+      );
+    });
+  });
+
+  function addOrder(id: string, status: string, ageMs: number): IFakeOrder {
+    const order = { id, status, creationDate: new Date(Date.now() - ageMs).toISOString() };
+    orders.push(order);
+    return order;
+  }
+
+  async function poll(event: string): Promise<IDataObject[]> {
+    const pollFunctions = createPollFunctions({
+      parameters: { event },
+      credentials,
+      staticData,
+    });
+    const output = await node.poll.call(pollFunctions);
+    return output ? output[0].map((item) => item.json) : [];
+  }
+
+  describe('Order Created', () => {
+    it('emits only orders created after activation, each once', async () => {
+      addOrder('existing', 'completed', DAY_MS);
+
+      expect(await poll('orderCreated')).toEqual([]);
+
+      // Created after the activation time recorded by the first poll
+      addOrder('new', 'submitted', -60 * 1000);
+      expect((await poll('orderCreated')).map((order) => order.id)).toEqual(['new']);
+      expect(await poll('orderCreated')).toEqual([]);
+    });
+  });
+
+  describe('Order Status Changed', () => {
+    it('watches orders already open at activation without emitting them', async () => {
+      const open = addOrder('open', 'submitted', 2 * DAY_MS);
+      addOrder('done', 'completed', 2 * DAY_MS);
+
+      expect(await poll('orderStatusChanged')).toEqual([]);
+      expect(
+        Object.keys((staticData.orderStatusChanged as IDataObject).openOrders as object),
+      ).toEqual(['open']);
+
+      open.status = 'processing';
+      expect(await poll('orderStatusChanged')).toEqual([
+        expect.objectContaining({ id: 'open', status: 'processing', previousStatus: 'submitted' }),
+      ]);
+
+      open.status = 'completed';
+      expect(await poll('orderStatusChanged')).toEqual([
+        expect.objectContaining({ id: 'open', status: 'completed', previousStatus: 'processing' }),
+      ]);
+      // Completed orders are no longer watched
+      expect(await poll('orderStatusChanged')).toEqual([]);
+    });
+
+    it('does not watch orders older than the look-back window', async () => {
+      const old = addOrder('old', 'submitted', 40 * DAY_MS);
+
+      await poll('orderStatusChanged');
+      old.status = 'completed';
+
+      expect(await poll('orderStatusChanged')).toEqual([]);
+    });
+  });
+
+  describe('switching events', () => {
+    it('keeps state per event and starts the new event with a first poll', async () => {
+      const open = addOrder('open', 'submitted', DAY_MS);
+      await poll('orderCreated');
+      addOrder('new', 'submitted', -60 * 1000);
+
+      // The new event neither reuses the Order Created cursor nor emits existing orders
+      expect(await poll('orderStatusChanged')).toEqual([]);
+      expect(Object.keys(staticData)).toEqual(['orderStatusChanged']);
+
+      open.status = 'error';
+      expect((await poll('orderStatusChanged')).map((order) => order.id)).toEqual(['open']);
+
+      // Switching back starts afresh instead of resuming the outdated cursor
+      expect(await poll('orderCreated')).toEqual([]);
+      expect(Object.keys(staticData)).toEqual(['orderCreated']);
+    });
+  });
+});
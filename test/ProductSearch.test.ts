@@ -0,0 +1,107 @@
+import type { ILoadOptionsFunctions } from 'n8n-workflow';
+import { CloudBlueCommerceSimpleApi } from '../src/nodes/CloudBlueCommerceSimpleApi/CloudBlueCommerceSimpleApi.node';
+import type { IListSearchResult } from '../src/nodes/CloudBlueCommerceSimpleApi/interfaces/api';
+import { RESOURCE_LOCATOR } from '../src/nodes/CloudBlueCommerceSimpleApi/utils/constants';
+import { createExecuteFunctions, createLoadOptionsFunctions } from './helpers/nodeFunctions';
+import type { NodeParameters } from './helpers/nodeFunctions';
+import { listResponse, useFakeServer } from './helpers/fakeServer';
+
+type SearchMethod = (
+  this: ILoadOptionsFunctions,
+  filter?: string,
+  paginationToken?: string,
+) => Promise<IListSearchResult>;
+
+describe('Product MPN resource locator', () => {
+  const server = useFakeServer();
+  const node = new CloudBlueCommerceSimpleApi();
+  const { searchProducts } = (
+    node.methods as unknown as { listSearch: Record<string, SearchMethod> }
+  ).listSearch;
+
+  const products = Array.from({ length: RESOURCE_LOCATOR.PAGE_SIZE + 20 }, (_, index) => ({
+    mpn: `MPN-${index}`,
+    name: `Product ${index}`,
+    vendor: 'microsoft',
+    billingPeriod: { type: 'month', duration: 1 },
+    prices: [{ type: 'recurring', amount: 10, currency: 'USD' }],
+  }));
+
+  function search(parameters: NodeParameters, filter?: string, paginationToken?: string) {
+    const loadOptionsFunctions = createLoadOptionsFunctions({
+      parameters,
+      credentials: server.createCredentials(),
+    });
+    return searchProducts.call(loadOptionsFunctions, filter, paginationToken);
+  }
+
+  it('fetches one page filtered on the server by name and the picker filters', async () => {
+    server.onApi(({ query }) => listResponse(products, query));
+
+    const result = await search(
+      { productPickerFilters: { vendor: 'microsoft', serviceName: 'O365_APS2' } },
+      ' Office ',
+    );
+
+    expect(server.apiRequests).toHaveLength(1);
+    const { path, query } = server.apiRequests[0];
+    expect(path).toBe('/products');
+    expect(Object.fromEntries(query)).toEqual({
+      name: 'Office',
+      vendor: 'microsoft',
+      serviceName: 'O365_APS2',
+      limit: String(RESOURCE_LOCATOR.PAGE_SIZE),
+      offset: '0',
+    });
+    expect(result.results).toHaveLength(RESOURCE_LOCATOR.PAGE_SIZE);
+    expect(result.results[0]).toEqual({
+      name: 'Product 0 (1 month, 10 USD)',
+      value: 'MPN-0',
+      description: 'MPN: MPN-0 | microsoft',
+    });
+    expect(result.paginationToken).toBe(RESOURCE_LOCATOR.PAGE_SIZE);
+  });
+
+  it('continues from the pagination token and stops at the last page', async () => {
+    server.onApi(({ query }) => listResponse(products, query));
+
+    const result = await search({}, undefined, String(RESOURCE_LOCATOR.PAGE_SIZE));
+
+    expect(server.apiRequests[0].query.get('offset')).toBe(String(RESOURCE_LOCATOR.PAGE_SIZE));
+    expect(server.apiRequests[0].query.has('name')).toBe(false);
+    expect(result.results.map((item) => item.value)).toEqual(
+      products.slice(RESOURCE_LOCATOR.PAGE_SIZE).map((product) => product.mpn),
+    );
+    expect(result.paginationToken).toBeUndefined();
+  });
+
+  it('sends the MPN selected in the locator of an order product', async () => {
+    server.onApi(() => ({ status: 200, body: { customerId: 'C-1', total: { currency: 'USD' } } }));
+    const executeFunctions = createExecuteFunctions({
+      parameters: {
+        resource: 'order',
+        operation: 'estimate',
+        data: {
+          values: {
+            customerId: 'C-1',
+            products: {
+              product: [
+                { mpn: { __rl: true, mode: 'list', value: 'MPN-1' }, quantity: 2 },
+                { mpn: 'MPN-2', quantity: 1 },
+              ],
+            },
+          },
+        },
+      },
+      credentials: server.createCredentials(),
+    });
+
+    await node.execute.call(executeFunctions);
+
+    expect(server.apiRequests[0].path).toBe('/orders/estimate');
+    expect((server.apiRequests[0].body as { products: unknown[] }).products).toEqual([
+      { mpn: 'MPN-1', quantity: 2 },
+      { mpn: 'MPN-2', quantity: 1 },
+    ]);
+  });
+});
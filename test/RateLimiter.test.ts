@@ -0,0 +1,95 @@
+import { RateLimiter } from '../src/nodes/CloudBlueCommerceSimpleApi/services/RateLimiter';
+import { useFakeServer } from './helpers/fakeServer';
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  // Starts `count` acquisitions and records, in order, the time each one is granted
+  function acquireAll(limiter: RateLimiter, count: number): { id: number; at: number }[] {
+    const start = Date.now();
+    const granted: { id: number; at: number }[] = [];
+    for (let id = 0; id < count; id++) {
+      void limiter.acquire().then(() => granted.push({ id, at: Date.now() - start }));
+    }
+    return granted;
+  }
+
+  it('grants the burst at once, then one request per interval', async () => {
+    const granted = acquireAll(new RateLimiter(10, 2), 4);
+
+    await jest.advanceTimersByTimeAsync(0);
+    expect(granted.map(({ at }) => at)).toEqual([0, 0]);
+
+    await jest.advanceTimersByTimeAsync(100);
+    expect(granted.map(({ at }) => at)).toEqual([0, 0, 100]);
+
+    await jest.advanceTimersByTimeAsync(100);
+    expect(granted.map(({ at }) => at)).toEqual([0, 0, 100, 200]);
+  });
+
+  it('serves waiting requests first come, first served', async () => {
+    const granted = acquireAll(new RateLimiter(5, 1), 4);
+
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(granted.map(({ id }) => id)).toEqual([0, 1, 2, 3]);
+  });
+
+  it('refills the bucket while idle, up to the burst', async () => {
+    const limiter = new RateLimiter(10, 3);
+    acquireAll(limiter, 3);
+    await jest.advanceTimersByTimeAsync(0);
+
+    // One second refills far more than the burst, so only 3 are granted at once again
+    await jest.advanceTimersByTimeAsync(1000);
+    const granted = acquireAll(limiter, 4);
+    await jest.advanceTimersByTimeAsync(0);
+    expect(granted).toHaveLength(3);
+
+    await jest.advanceTimersByTimeAsync(100);
+    expect(granted).toHaveLength(4);
+  });
+
+  it('treats a burst below 1 as 1', async () => {
+    const granted = acquireAll(new RateLimiter(10, 0), 2);
+
+    await jest.advanceTimersByTimeAsync(0);
+    expect(granted).toHaveLength(1);
+    await jest.advanceTimersByTimeAsync(100);
+    expect(granted).toHaveLength(2);
+  });
+});
+
+describe('CloudBlueApiService rate limiting', () => {
+  const server = useFakeServer();
+
+  it('shares one limiter between the views of a credential', async () => {
+    const service = server.createService({ requestsPerSecond: 10, burst: 1 });
+    await service.get('/warm-up');
+    server.apiRequests.length = 0;
+
+    await Promise.all([
+      service.get('/a'),
+      service.withRetryOptions({ maxAttempts: 1 }).get('/b'),
+      service.withDryRun(true).get('/c'),
+    ]);
+
+    const times = server.apiRequests.map(({ receivedAt }) => receivedAt);
+    // Generous lower bounds: each request waits about 100 ms for its token
+    expect(times[1] - times[0]).toBeGreaterThanOrEqual(80);
+    expect(times[2] - times[1]).toBeGreaterThanOrEqual(80);
+  });
+
+  it('does not limit credentials without a rate', async () => {
+    const service = server.createService();
+    expect((service as unknown as { session: { rateLimiter: unknown } }).session.rateLimiter).toBe(
+      null,
+    );
+  });
+});
@@ -0,0 +1,150 @@
+import type { IDataObject } from 'n8n-workflow';
+import { CloudBlueCommerceSimpleApiTrigger } from '../src/nodes/CloudBlueCommerceSimpleApi/CloudBlueCommerceSimpleApiTrigger.node';
+import type { ICloudBlueCredentials } from '../src/nodes/CloudBlueCommerceSimpleApi/services/CloudBlueApiService';
+import { listResponse, useFakeServer } from './helpers/fakeServer';
+import { createPollFunctions } from './helpers/nodeFunctions';
+import type { NodeParameters } from './helpers/nodeFunctions';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface IFakeSubscription {
+  id: string;
+  status: string;
+  renewalStatus: boolean;
+  expirationDate?: string;
+  renewalDate?: string;
+}
+
+describe('Subscription trigger', () => {
+  const server = useFakeServer();
+  const node = new CloudBlueCommerceSimpleApiTrigger();
+  let subscriptions: IFakeSubscription[];
+  let credentials: ICloudBlueCredentials;
+  let staticData: IDataObject;
+
+  beforeEach(() => {
+    subscriptions = [];
+    credentials = server.createCredentials();
+    staticData = {};
+    server.onApi(({ query }) => listResponse(subscriptions, query));
+  });
+
+  function addSubscription(id: string, fields: Partial<IFakeSubscription> = {}): IFakeSubscription {
+    const subscription = { id, status: 'active', renewalStatus: true, ...fields };
+    subscriptions.push(subscription);
+    return subscription;
+  }
+
+  function inDays(days: number): string {
+    return new Date(Date.now() + days * DAY_MS).toISOString();
+  }
+
+  async function poll(parameters: NodeParameters): Promise<IDataObject[]> {
+    const pollFunctions = createPollFunctions({ parameters, credentials, staticData });
+    const output = await node.poll.call(pollFunctions);
+    return output ? output[0].map((item) => item.json) : [];
+  }
+
+  describe('Subscription Status Changed', () => {
+    const parameters = { event: 'subscriptionStatusChanged' };
+
+    it('emits nothing on the first poll, then each status change', async () => {
+      const subscription = addSubscription('s1');
+
+      expect(await poll(parameters)).toEqual([]);
+
+      subscription.status = 'hold';
+      expect(await poll(parameters)).toEqual([
+        expect.objectContaining({
+          id: 's1',
+          event: 'subscriptionStatusChanged',
+          previousStatus: 'active',
+        }),
+      ]);
+      expect(await poll(parameters)).toEqual([]);
+    });
+
+    it('only emits target statuses when some are selected', async () => {
+      const held = addSubscription('held');
+      const terminated = addSubscription('terminated');
+      const withTargets = { ...parameters, statuses: ['terminated'] };
+      await poll(withTargets);
+
+      held.status = 'hold';
+      terminated.status = 'terminated';
+
+      expect((await poll(withTargets)).map((subscription) => subscription.id)).toEqual([
+        'terminated',
+      ]);
+    });
+
+    it('does not emit subscriptions first seen after activation', async () => {
+      await poll(parameters);
+      addSubscription('new', { status: 'pending' });
+
+      expect(await poll(parameters)).toEqual([]);
+    });
+  });
+
+  describe('Subscription Renewal Disabled', () => {
+    const parameters = { event: 'subscriptionRenewalDisabled' };
+
+    it('emits subscriptions whose auto-renewal was switched off', async () => {
+      const subscription = addSubscription('s1');
+      addSubscription('off', { renewalStatus: false });
+
+      expect(await poll(parameters)).toEqual([]);
+
+      subscription.renewalStatus = false;
+      expect(await poll(parameters)).toEqual([
+        expect.objectContaining({ id: 's1', event: 'subscriptionRenewalDisabled' }),
+      ]);
+      expect(await poll(parameters)).toEqual([]);
+    });
+  });
+
+  describe('Subscription Expiring', () => {
+    const parameters = { event: 'subscriptionExpiring', days: 30 };
+
+    it('emits subscriptions already within the window on the first poll', async () => {
+      addSubscription('soon', { expirationDate: inDays(10) });
+      addSubscription('later', { expirationDate: inDays(60) });
+      addSubscription('past', { expirationDate: inDays(-1) });
+
+      expect(await poll(parameters)).toEqual([
+        expect.objectContaining({
+          id: 'soon',
+          event: 'subscriptionExpiring',
+          dateField: 'expirationDate',
+          daysRemaining: 10,
+        }),
+      ]);
+    });
+
+    it('emits each date once and a moved date again', async () => {
+      const subscription = addSubscription('s1', { expirationDate: inDays(10) });
+      await poll(parameters);
+
+      expect(await poll(parameters)).toEqual([]);
+
+      subscription.expirationDate = inDays(20);
+      expect((await poll(parameters)).map((item) => item.id)).toEqual(['s1']);
+    });
+
+    it('emits subscriptions entering the window', async () => {
+      const subscription = addSubscription('s1', { expirationDate: inDays(45) });
+      expect(await poll(parameters)).toEqual([]);
+
+      subscription.expirationDate = inDays(5);
+      expect((await poll(parameters)).map((item) => item.id)).toEqual(['s1']);
+    });
+
+    it('watches the renewal date when selected', async () => {
+      addSubscription('s1', { expirationDate: inDays(90), renewalDate: inDays(3) });
+
+      expect(await poll({ ...parameters, dateField: 'renewalDate' })).toEqual([
+        expect.objectContaining({ id: 's1', dateField: 'renewalDate' }),
+      ]);
+    });
+  });
+});
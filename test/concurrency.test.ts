@@ -0,0 +1,123 @@
+import { CloudBlueCommerceSimpleApi } from '../src/nodes/CloudBlueCommerceSimpleApi/CloudBlueCommerceSimpleApi.node';
+import { mapWithConcurrency } from '../src/nodes/CloudBlueCommerceSimpleApi/utils/concurrency';
+import { sleep } from '../src/nodes/CloudBlueCommerceSimpleApi/utils/sleep';
+import { createExecuteFunctions } from './helpers/nodeFunctions';
+import { useFakeServer } from './helpers/fakeServer';
+
+describe('mapWithConcurrency', () => {
+  it('keeps results in index order when tasks finish out of order', async () => {
+    const results = await mapWithConcurrency(4, 4, async (index) => {
+      await sleep((4 - index) * 10);
+      return index;
+    });
+
+    expect(results).toEqual([0, 1, 2, 3]);
+  });
+
+  it('never runs more tasks than the limit', async () => {
+    let running = 0;
+    let peak = 0;
+
+    await mapWithConcurrency(10, 3, async () => {
+      running++;
+      peak = Math.max(peak, running);
+      await sleep(5);
+      running--;
+    });
+
+    expect(peak).toBe(3);
+  });
+
+  it('runs one task at a time below a limit of 1', async () => {
+    let running = 0;
+    let peak = 0;
+
+    await mapWithConcurrency(3, 0, async () => {
+      running++;
+      peak = Math.max(peak, running);
+      await sleep(1);
+      running--;
+    });
+
+    expect(peak).toBe(1);
+  });
+
+  it('starts no new tasks after a failure and rejects with the first error', async () => {
+    const started: number[] = [];
+
+    await expect(
+      mapWithConcurrency(10, 2, async (index) => {
+        started.push(index);
+        await sleep(5);
+        if (index === 1) {
+          throw new Error(`failed ${index}`);
+        }
+      }),
+    ).rejects.toThrow('failed 1');
+    // Index 2 was started by the worker that finished index 0 first; nothing after that
+    expect(started).toEqual([0, 1, 2]);
+  });
+});
+
+describe('CloudBlueCommerceSimpleApi parallel execution', () => {
+  const server = useFakeServer();
+  const node = new CloudBlueCommerceSimpleApi();
+
+  // Answers /customers/{id} with a delay that makes later items finish first
+  function serveCustomers(): void {
+    server.onApi(({ path }) => {
+      const id = Number(path.split('/').pop());
+      if (id === 13) {
+        return { status: 404, body: { message: 'No entity has been found' } };
+      }
+      return { status: 200, body: { id: String(id) }, delay: (10 - id) * 10 };
+    });
+  }
+
+  function run(ids: number[], parallelism: number, continueOnFail = false) {
+    const executeFunctions = createExecuteFunctions({
+      parameters: ids.map((id) => ({
+        resource: 'customer',
+        operation: 'get',
+        id: String(id),
+        requestOptions: { parallelism },
+      })),
+      credentials: server.createCredentials(),
+      continueOnFail,
+    });
+    return node.execute.call(executeFunctions);
+  }
+
+  it('returns items in input order with their paired item', async () => {
+    serveCustomers();
+
+    const [output] = await run([1, 2, 3, 4, 5], 3);
+
+    expect(output.map((item) => item.json.id)).toEqual(['1', '2', '3', '4', '5']);
+    expect(output.map((item) => item.pairedItem)).toEqual(
+      [0, 1, 2, 3, 4].map((item) => ({ item })),
+    );
+  });
+
+  it('keeps failed items in place when continuing on fail', async () => {
+    serveCustomers();
+
+    const [output] = await run([1, 13, 3], 3, true);
+
+    expect(output[0].json).toEqual({ id: '1' });
+    expect(output[1].json.error).toContain('Customer not found');
+    expect(output[1].pairedItem).toEqual({ item: 1 });
+    expect(output[2].json).toEqual({ id: '3' });
+  });
+
+  it('fails the node with the item index of the first error', async () => {
+    serveCustomers();
+
+    await expect(run([1, 13, 3], 2)).rejects.toMatchObject({
+      message: expect.stringContaining('Customer not found'),
+      context: { itemIndex: 1 },
+    });
+    // Let the request still in flight for item 0 finish before the server stops
+    await sleep(150);
+  });
+});
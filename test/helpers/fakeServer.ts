@@ -0,0 +1,205 @@
+import { createServer } from 'http';
+import type { IncomingMessage, Server, ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { CloudBlueApiService } from '../../src/nodes/CloudBlueCommerceSimpleApi/services/CloudBlueApiService';
+import type { ICloudBlueCredentials } from '../../src/nodes/CloudBlueCommerceSimpleApi/services/CloudBlueApiService';
+
+export interface IFakeResponse {
+  status: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+  // Milliseconds to wait before answering
+  delay?: number;
+}
+
+export interface IFakeRequest {
+  method: string;
+  // Path below `/api`, without the query string
+  path: string;
+  query: URLSearchParams;
+  body: unknown;
+  token: string;
+  receivedAt: number;
+}
+
+export type ApiHandler = (request: IFakeRequest) => IFakeResponse | Promise<IFakeResponse>;
+
+export interface ISession {
+  accessToken: string | null;
+  tokenExpiry: number | null;
+  refreshToken: string | null;
+}
+
+/**
+ * Answers a list request with the page of `records` selected by its offset and limit
+ */
+export function listResponse(records: unknown[], query: URLSearchParams): IFakeResponse {
+  const offset = Number(query.get('offset') || 0);
+  const limit = Number(query.get('limit') || records.length);
+  return {
+    status: 200,
+    body: {
+      data: records.slice(offset, offset + limit),
+      pagination: { offset, limit, total: records.length },
+    },
+  };
+}
+
+const defaultApiHandler: ApiHandler = (request) => ({
+  status: 200,
+  body: { token: request.token },
+});
+
+/**
+ * Fake identity and API server: `/token` answers with the queued responses,
+ * `/api/*` accepts only tokens that have not been revoked and is answered by `onApi`
+ */
+export class FakeServer {
+  public readonly tokenRequests: URLSearchParams[] = [];
+  public readonly apiRequests: IFakeRequest[] = [];
+  public readonly validTokens = new Set<string>();
+  private readonly tokenResponses: IFakeResponse[] = [];
+  private apiHandler: ApiHandler = defaultApiHandler;
+  private issued = 0;
+  private users = 0;
+  private server!: Server;
+
+  public url = '';
+
+  public async start(): Promise<void> {
+    this.server = createServer((req, res) => this.handle(req, res));
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+    const { port } = this.server.address() as AddressInfo;
+    this.url = `http://127.0.0.1:${port}`;
+  }
+
+  public async stop(): Promise<void> {
+    this.server.closeAllConnections();
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  /**
+   * Forgets the recorded requests and queued responses and restores the default API handler
+   */
+  public reset(): void {
+    this.tokenRequests.length = 0;
+    this.apiRequests.length = 0;
+    this.tokenResponses.length = 0;
+    this.apiHandler = defaultApiHandler;
+  }
+
+  /**
+   * Returns credentials with a username of their own, so tests never share a cached service
+   */
+  public createCredentials(overrides: Partial<ICloudBlueCredentials> = {}): ICloudBlueCredentials {
+    return {
+      apiUrl: `${this.url}/api`,
+      authUrl: this.url,
+      username: `user-${++this.users}`,
+      password: 'secret',
+      clientId: 'client',
+      clientSecret: 'client-secret',
+      subscriptionKey: 'key',
+      ...overrides,
+    };
+  }
+
+  public createService(overrides: Partial<ICloudBlueCredentials> = {}): CloudBlueApiService {
+    return CloudBlueApiService.getInstance(this.createCredentials(overrides));
+  }
+
+  public getSession(service: CloudBlueApiService): ISession {
+    return (service as unknown as { session: ISession }).session;
+  }
+
+  /**
+   * Queues the answer to the next token request; unqueued requests get a fresh token
+   * together with a fresh refresh token
+   */
+  public respondToToken(status: number, body: Record<string, unknown> = {}): void {
+    this.tokenResponses.push({ status, body });
+  }
+
+  public issueToken(refreshToken?: string): Record<string, unknown> {
+    const accessToken = `access-${++this.issued}`;
+    this.validTokens.add(accessToken);
+    return {
+      access_token: accessToken,
+      expires_in: 3600,
+      ...(refreshToken ? { refresh_token: refreshToken } : {}),
+    };
+  }
+
+  public onApi(handler: ApiHandler): void {
+    this.apiHandler = handler;
+  }
+
+  private handle(req: IncomingMessage, res: ServerResponse): void {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', async () => {
+      if (req.url === '/token') {
+        this.tokenRequests.push(new URLSearchParams(body));
+        const response = this.tokenResponses.shift() || {
+          status: 200,
+          body: this.issueToken(`refresh-${this.issued + 1}`),
+        };
+        // Delay token responses so concurrent callers overlap
+        setTimeout(() => this.send(res, response), 20);
+        return;
+      }
+
+      const url = new URL(req.url as string, this.url);
+      const request: IFakeRequest = {
+        method: req.method as string,
+        path: url.pathname.replace(/^\/api/, ''),
+        query: url.searchParams,
+        body: body ? JSON.parse(body) : undefined,
+        token: (req.headers.authorization || '').replace('Bearer ', ''),
+        receivedAt: Date.now(),
+      };
+      this.apiRequests.push(request);
+
+      if (!this.validTokens.has(request.token)) {
+        this.send(res, { status: 401, body: { message: 'Unauthorized' } });
+        return;
+      }
+
+      const response = await this.apiHandler(request);
+      if (response.delay) {
+        setTimeout(() => this.send(res, response), response.delay);
+      } else {
+        this.send(res, response);
+      }
+    });
+  }
+
+  private send(res: ServerResponse, response: IFakeResponse): void {
+    res.writeHead(response.status, { 'Content-Type': 'application/json', ...response.headers });
+    res.end(response.body === undefined ? '' : JSON.stringify(response.body));
+  }
+}
+
+/**
+ * Starts a fake server for the enclosing describe block and silences debug logging
+ */
+export function useFakeServer(): FakeServer {
+  const server = new FakeServer();
+
+  beforeAll(async () => {
+    // Keep the service's debug logging out of the test output
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    await server.start();
+  });
+
+  afterAll(async () => {
+    jest.restoreAllMocks();
+    await server.stop();
+  });
+
+  beforeEach(() => {
+    server.reset();
+  });
+
+  return server;
+}
@@ -0,0 +1,121 @@
+import type {
+  IDataObject,
+  IExecuteFunctions,
+  ILoadOptionsFunctions,
+  INodeExecutionData,
+  IPollFunctions,
+} from 'n8n-workflow';
+import type { ICloudBlueCredentials } from '../../src/nodes/CloudBlueCommerceSimpleApi/services/CloudBlueApiService';
+
+export type NodeParameters = Record<string, unknown>;
+
+export interface IExecuteFunctionsOptions {
+  // Parameters per item; a single object applies to every item
+  parameters: NodeParameters | NodeParameters[];
+  credentials?: ICloudBlueCredentials;
+  continueOnFail?: boolean;
+  nodeType?: string;
+}
+
+/**
+ * Minimal IExecuteFunctions backed by plain parameter objects
+ */
+export function createExecuteFunctions(options: IExecuteFunctionsOptions): IExecuteFunctions {
+  const { parameters, credentials, continueOnFail = false } = options;
+  const perItem = Array.isArray(parameters) ? parameters : [parameters];
+  const items: INodeExecutionData[] = perItem.map(() => ({ json: {} }));
+
+  const executeFunctions = {
+    getInputData: () => items,
+    getNode: () => ({
+      name: 'CloudBlue',
+      type: options.nodeType || 'n8n-nodes-cloudblue-commerce-simpleapi.cloudBlueCommerceSimpleApi',
+      typeVersion: 1,
+      position: [0, 0],
+      parameters: {},
+    }),
+    getNodeParameter: (name: string, i: number, fallback?: unknown) => {
+      const values = perItem[Math.min(i, perItem.length - 1)];
+      if (name in values) {
+        return values[name];
+      }
+      if (fallback === undefined) {
+        throw new Error(`Could not get parameter "${name}"`);
+      }
+      return fallback;
+    },
+    getCredentials: async () => credentials as unknown as IDataObject,
+    continueOnFail: () => continueOnFail,
+  };
+
+  return executeFunctions as unknown as IExecuteFunctions;
+}
+
+export interface IPollFunctionsOptions {
+  parameters: NodeParameters;
+  credentials: ICloudBlueCredentials;
+  // Workflow static data of the node, kept between polls by the caller
+  staticData: IDataObject;
+  mode?: 'trigger' | 'manual';
+}
+
+/**
+ * Minimal IPollFunctions backed by a plain parameter object and static data
+ */
+export function createPollFunctions(options: IPollFunctionsOptions): IPollFunctions {
+  const { parameters, credentials, staticData, mode = 'trigger' } = options;
+
+  const pollFunctions = {
+    getMode: () => mode,
+    getNode: () => ({
+      name: 'CloudBlue Trigger',
+      type: 'n8n-nodes-cloudblue-commerce-simpleapi.cloudBlueCommerceSimpleApiTrigger',
+      typeVersion: 1,
+      position: [0, 0],
+      parameters: {},
+    }),
+    getNodeParameter: (name: string, fallback?: unknown) => {
+      if (name in parameters) {
+        return parameters[name];
+      }
+      if (fallback === undefined) {
+        throw new Error(`Could not get parameter "${name}"`);
+      }
+      return fallback;
+    },
+    getWorkflowStaticData: () => staticData,
+    getCredentials: async () => credentials as unknown as IDataObject,
+  };
+
+  return pollFunctions as unknown as IPollFunctions;
+}
+
+export interface ILoadOptionsFunctionsOptions {
+  // Current parameters of the node being edited
+  parameters: NodeParameters;
+  credentials: ICloudBlueCredentials;
+}
+
+/**
+ * Minimal ILoadOptionsFunctions backed by a plain object of the current node parameters
+ */
+export function createLoadOptionsFunctions(
+  options: ILoadOptionsFunctionsOptions,
+): ILoadOptionsFunctions {
+  const { parameters, credentials } = options;
+
+  const loadOptionsFunctions = {
+    getNode: () => ({
+      name: 'CloudBlue',
+      type: 'n8n-nodes-cloudblue-commerce-simpleapi.cloudBlueCommerceSimpleApi',
+      typeVersion: 1,
+      position: [0, 0],
+      parameters,
+    }),
+    getCurrentNodeParameter: (name: string) => parameters[name],
+    getCurrentNodeParameters: () => parameters,
+    getCredentials: async () => credentials as unknown as IDataObject,
+  };
+
+  return loadOptionsFunctions as unknown as ILoadOptionsFunctions;
+}
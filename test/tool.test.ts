@@ -0,0 +1,93 @@
+import type { INodeProperties } from 'n8n-workflow';
+import { CloudBlueCommerceSimpleApi } from '../src/nodes/CloudBlueCommerceSimpleApi/CloudBlueCommerceSimpleApi.node';
+import { assertToolOperationAllowed } from '../src/nodes/CloudBlueCommerceSimpleApi/utils/tool';
+import { createExecuteFunctions } from './helpers/nodeFunctions';
+import type { NodeParameters } from './helpers/nodeFunctions';
+
+const TOOL_NODE_TYPE = 'n8n-nodes-cloudblue-commerce-simpleapi.cloudBlueCommerceSimpleApiTool';
+
+describe('assertToolOperationAllowed', () => {
+  function check(
+    resource: string,
+    operation: string,
+    parameters: NodeParameters = {},
+    nodeType = TOOL_NODE_TYPE,
+  ): void {
+    const executeFunctions = createExecuteFunctions({ parameters, nodeType });
+    assertToolOperationAllowed(executeFunctions, resource, operation, 0);
+  }
+
+  // Operation values of every resource, as offered by the node
+  function describedOperations(): Array<[string, string]> {
+    const { properties } = new CloudBlueCommerceSimpleApi().description;
+    return (properties as INodeProperties[])
+      .filter((property) => property.name === 'operation')
+      .flatMap((property) =>
+        (property.displayOptions?.show?.resource as string[]).flatMap((resource) =>
+          (property.options as Array<{ value: string }>).map((option): [string, string] => [
+            resource,
+            option.value,
+          ]),
+        ),
+      );
+  }
+
+  it.each([
+    ['customer', 'getMany'],
+    ['order', 'estimate'],
+    ['report', 'waitAndDownload'],
+    ['validation', 'validateParameters'],
+  ])('lets an agent run the read operation %s %s', (resource, operation) => {
+    expect(() => check(resource, operation)).not.toThrow();
+  });
+
+  it.each([
+    ['order', 'create'],
+    ['subscription', 'updateSpecialPricing'],
+    ['order', 'cancel'],
+    ['invoice', 'getMany'],
+  ])('refuses %s %s unless write operations are allowed', (resource, operation) => {
+    expect(() => check(resource, operation)).toThrow(
+      `Operation ${resource} ${operation} is not a read operation and is disabled for this tool`,
+    );
+    expect(() => check(resource, operation, { allowWriteOperations: true })).not.toThrow();
+  });
+
+  it('treats only GET custom API calls as reads', () => {
+    expect(() => check('customApiCall', 'request', { method: 'GET' })).not.toThrow();
+    expect(() => check('customApiCall', 'request', { method: 'DELETE' })).toThrow(
+      'is not a read operation',
+    );
+  });
+
+  it('does not restrict the node outside of agents', () => {
+    expect(() => check('order', 'create', {}, 'n8n-nodes-base.cloudBlue')).not.toThrow();
+  });
+
+  it('classifies the operations of every resource', () => {
+    const operations = describedOperations();
+    const refused = operations.filter(([resource, operation]) => {
+      try {
+        check(resource, operation, { method: 'POST' });
+        return false;
+      } catch {
+        return true;
+      }
+    });
+
+    expect(operations.length).toBeGreaterThan(30);
+    expect(refused.map((entry) => entry.join(' ')).sort()).toEqual([
+      'customApiCall request',
+      'customer create',
+      'customer createForReseller',
+      'customer update',
+      'order create',
+      'order update',
+      'report create',
+      'reseller create',
+      'reseller update',
+      'subscription update',
+      'subscription updateSpecialPricing',
+    ]);
+  });
+});